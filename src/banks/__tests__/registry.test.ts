@@ -0,0 +1,17 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBankClient, isBankSupported, listBanks } from '../index';
+
+describe('bank registry', () => {
+  it('registers every bank adapter when the factory is imported', () => {
+    assert.deepEqual(listBanks().map(bank => bank.code).sort(), ['banesco', 'bnc']);
+    assert.equal(isBankSupported('BNC'), true);
+  });
+
+  it('rejects unknown bank codes, naming the available ones', () => {
+    assert.throws(
+      () => createBankClient('mercantil', { username: 'u', password: 'p' }),
+      /Unsupported bank: mercantil \(available: bnc, banesco\)/
+    );
+  });
+});
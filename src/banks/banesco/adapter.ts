@@ -0,0 +1,136 @@
+/**
+ * Banesco Bank Adapter
+ *
+ * Exposes BanescoScraper through the shared `BankScraper` interface so Banesco
+ * can be created from the bank registry with generic credentials.
+ *
+ * Credential mapping:
+ * - `username`           → Usuario de BanescOnline
+ * - `password`           → Contraseña
+ * - `securityQuestions`  → Mapeo `palabra:respuesta` de preguntas de seguridad
+ */
+
+import { BanescoScraper } from './scrapers/banesco-scraper';
+import { AccountsScraper } from './scrapers/accounts';
+import { BANESCO_CONFIG } from './types';
+import type { BanescoCredentials, BanescoScrapingResult } from './types';
+import type {
+  BankAccount,
+  BankCredentials,
+  BankScraper,
+  BankTransaction,
+  LoginResult,
+  ScrapingResult
+} from '../../shared/types';
+import type { BankAdapter, BankClientOptions } from '../../shared/bank-registry';
+
+export class BanescoBankClient implements BankScraper {
+  private scraper: BanescoScraper;
+
+  constructor(credentials: BanescoCredentials, options: BankClientOptions = {}) {
+    this.scraper = new BanescoScraper(credentials, {
+      ...options,
+      closeAfterScraping: false
+    });
+  }
+
+  async login(): Promise<LoginResult> {
+    const result = await this.scraper.authenticate();
+
+    return {
+      success: result.success,
+      message: result.message,
+      sessionValid: result.sessionValid
+    };
+  }
+
+  async scrapeAccounts(): Promise<ScrapingResult<BankAccount>> {
+    const authError = await this.ensureAuthenticated();
+    if (authError) {
+      return authError;
+    }
+
+    return await new AccountsScraper().scrapeAccounts(this.scraper.getPage()!);
+  }
+
+  /**
+   * Transactions of every account in the movements dropdown, or only of the
+   * account page at `accountUrl`
+   */
+  async scrapeTransactions(accountUrl?: string): Promise<ScrapingResult<BankTransaction>> {
+    const authError = await this.ensureAuthenticated();
+    if (authError) {
+      return authError;
+    }
+
+    if (accountUrl) {
+      await this.scraper.getPage()!.goto(accountUrl, { waitUntil: 'networkidle' });
+      return await this.scraper.scrapeTransactions();
+    }
+
+    return mergeAccountResults(await this.scraper.scrapeAllAccountTransactions());
+  }
+
+  async close(): Promise<void> {
+    await this.scraper.close();
+  }
+
+  /**
+   * Login on demand, returning a failure result if authentication fails
+   */
+  private async ensureAuthenticated(): Promise<ScrapingResult<never> | null> {
+    if (this.scraper.isAuthenticated() && this.scraper.getPage()) {
+      return null;
+    }
+
+    const loginResult = await this.login();
+    if (!loginResult.success || !this.scraper.getPage()) {
+      return {
+        success: false,
+        error: `Authentication failed: ${loginResult.message}`,
+        timestamp: new Date()
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Combine per-account results into one: it fails only when no account could be
+ * scraped, and the accounts that failed are listed in `metadata.errors`
+ */
+function mergeAccountResults(results: BanescoScrapingResult[]): ScrapingResult<BankTransaction> {
+  const failed = results.filter(result => !result.success);
+  const errors = failed.map(result => result.error || result.message || 'Unknown error');
+  const data = results.flatMap(result => result.data || []);
+  const success = results.length > failed.length;
+
+  return {
+    success,
+    message: `Scraped ${data.length} transactions from ${results.length - failed.length} of ${results.length} accounts`,
+    data,
+    timestamp: new Date(),
+    error: success ? undefined : errors.join('; '),
+    metadata: {
+      accounts: results.map(result => result.metadata?.account).filter(Boolean),
+      errors: errors.length > 0 ? errors : undefined
+    }
+  };
+}
+
+/**
+ * Map generic bank credentials to Banesco credentials
+ */
+export function toBanescoCredentials(credentials: BankCredentials): BanescoCredentials {
+  return {
+    username: credentials.username,
+    password: credentials.password,
+    securityQuestions: credentials.securityQuestions || ''
+  };
+}
+
+export const banescoAdapter: BankAdapter = {
+  config: BANESCO_CONFIG,
+  createClient: (credentials, options) => new BanescoBankClient(toBanescoCredentials(credentials), options)
+};
@@ -7,13 +7,16 @@
  */
 import { SecurityQuestionsHandler } from './security-questions';
 import { BaseBankAuth } from '../../../shared/base-bank-auth';
+import { SessionManager } from '../../../shared/utils/session-manager';
 import { Frame } from 'playwright';
 import {
   BanescoCredentials,
   BanescoLoginResult,
   BanescoAuthConfig,
-  BANESCO_URLS
+  BANESCO_URLS,
+  BANESCO_CONFIG
 } from '../types';
+import type { BankConfig } from '../../../shared/types';
 
 export class BanescoAuth extends BaseBankAuth<
   BanescoCredentials, 
@@ -57,6 +60,13 @@ export class BanescoAuth extends BaseBankAuth<
     return BANESCO_URLS.LOGIN;
   }
 
+  /**
+   * Banesco config, with the session policy used by the keep-alive
+   */
+  protected getBankConfig(): BankConfig {
+    return BANESCO_CONFIG;
+  }
+
   /**
    * Perform Banesco-specific login with iframe handling
    */
@@ -336,6 +346,28 @@ export class BanescoAuth extends BaseBankAuth<
     };
   }
 
+  /**
+   * A restored session is valid when the home page opens in the banking area, not the login
+   */
+  protected async validateRestoredSession(): Promise<boolean> {
+    if (!this.page) return false;
+
+    try {
+      await this.page.goto(BANESCO_URLS.HOME, {
+        waitUntil: 'domcontentloaded',
+        timeout: this.config.timeout
+      });
+
+      const valid = await SessionManager.getInstance().isSessionValid(this.page);
+      this.log(valid ? '✅ Restored session verified on the home page' : '❌ Restored session redirected to the login');
+      return valid;
+
+    } catch (error) {
+      this.log(`❌ Error validating restored session: ${error}`);
+      return false;
+    }
+  }
+
   /**
    * Get credentials for logging purposes (safe)
    */
@@ -1,5 +1,5 @@
 import { Page, Frame } from 'playwright';
-import { BanescCredentials, LoginResult } from '../types/index';
+import { BanescCredentials, LoginResult, BANESCO_URLS, BANESCO_CONFIG } from '../types/index';
 import { PersistentBrowserServer } from '../../../shared/utils/browser-server';
 import { SecurityQuestionsHandler } from './security-questions';
 import { StrategicLogger } from '../../../shared/utils/strategic-logger';
@@ -55,7 +55,7 @@ export class OptimizedLogin {
       
       if (loginSuccess) {
         // Guardar sesión completa para evitar preguntas futuras
-        await this.sessionManager.saveSession(page, this.credentials.username);
+        await this.sessionManager.saveSession(page, this.credentials.username, BANESCO_CONFIG);
         
         this.authenticatedPage = page;
         this.isLoggedIn = true;
@@ -97,7 +97,7 @@ export class OptimizedLogin {
       await this.browserServer.start();
       const page = await this.browserServer.newPage();
 
-      const restored = await this.sessionManager.restoreSession(page, this.credentials.username);
+      const restored = await this.sessionManager.restoreSession(page, this.credentials.username, BANESCO_CONFIG);
       
       if (restored) {
         const isValid = await this.sessionManager.isSessionValid(page);
@@ -110,7 +110,7 @@ export class OptimizedLogin {
           return true;
         } else {
           this.logger.info('Sesión inválida, procediendo con login fresh');
-          await this.sessionManager.clearSession(this.credentials.username);
+          await this.sessionManager.clearSession(this.credentials.username, BANESCO_CONFIG);
         }
       }
 
@@ -150,13 +150,13 @@ export class OptimizedLogin {
       this.logger.info('🔐 Iniciando proceso de login optimizado');
 
       // Navegación inicial
-      await page.goto('https://www.banesconline.com/mantis/Website/Login.aspx', { 
+      await page.goto(BANESCO_URLS.LOGIN, { 
         waitUntil: 'domcontentloaded',
         timeout: 15000 
       });
 
       // Acceso al iframe
-      const frame = await SmartWaiter.waitForIframeReady(page, 'iframe#ctl00_cp_frmAplicacion', {
+      const frame = await SmartWaiter.waitForIframeReady(page, BANESCO_URLS.IFRAME_SELECTOR, {
         timeout: 10000,
         description: 'login_iframe'
       });
@@ -352,8 +352,8 @@ export class OptimizedLogin {
     
     // Intentar navegación directa si es necesario
     const directUrls = [
-      'https://www.banesconline.com/Mantis/WebSite/index.aspx',
-      'https://www.banesconline.com/mantis/Website/index.aspx'
+      BANESCO_URLS.HOME,
+      `${BANESCO_URLS.BASE}/mantis/Website/index.aspx`
     ];
     
     for (const url of directUrls) {
@@ -15,6 +15,12 @@
 export { BanescoScraper, createBanescoScraper, quickScrape } from './scrapers/banesco-scraper';
 export { BanescoAuth } from './auth/banesco-auth';
 export { BanescoTransactionsScraper } from './scrapers/transactions';
+export { AccountsScraper } from './scrapers/accounts';
+export { parseBanescoAccounts } from './scrapers/accounts-parser';
+export type { RejectedAccountRow } from './scrapers/accounts-parser';
+export { BanescoBankClient, banescoAdapter, toBanescoCredentials } from './adapter';
+export { BanescoMockServer, BANESCO_MOCK_CREDENTIALS, BANESCO_MOCK_QUESTIONS, BANESCO_MOCK_ACCOUNTS } from './mock/banesco-mock-server';
+export type { BanescoMockOptions, BanescoMockQuestion, BanescoMockAccount, BanescoMockLoginFlow, BanescoMockFailure } from './mock/banesco-mock-server';
 
 // Types and interfaces
 export type {
@@ -24,6 +30,10 @@ export type {
   BanescoScrapingConfig,
   BanescAccount,
   BanescTransaction,
+  BanescoAccountOption,
+  BanescoPeriod,
+  BanescoPeriodSelection,
+  BanescoAppliedPeriod,
   Account,
   Transaction,
   LoginResult,
@@ -33,12 +43,16 @@ export type {
 
 export {
   BANESCO_URLS,
-  BANESCO_CONFIG
+  BANESCO_CONFIG,
+  BANESCO_PERIODS,
+  BANESCO_SELECTORS,
+  overrideBanescoUrls
 } from './types';
 
 // Export scraping result interfaces
 export type {
-  BanescoScrapingSession
+  BanescoScrapingSession,
+  BanescoSyncSession
 } from './scrapers/banesco-scraper';
 
 export type {
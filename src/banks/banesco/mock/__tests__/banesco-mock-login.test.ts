@@ -0,0 +1,61 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { chromium } from 'playwright';
+import { BanescoMockServer } from '../banesco-mock-server';
+import { OptimizedLogin } from '../../auth/optimized-login';
+import { BanescoScraper } from '../../scrapers/banesco-scraper';
+import { overrideBanescoUrls } from '../../types';
+import { SessionManager } from '../../../../shared/utils/session-manager';
+import { MemorySessionStore } from '../../../../shared/utils/session-store';
+
+// Both logins drive a real browser; skipped where Playwright's Chromium is not installed
+const browserMissing = !existsSync(chromium.executablePath()) && 'Chromium not installed (npx playwright install chromium)';
+
+describe('Banesco logins against the mock server', { skip: browserMissing }, () => {
+  // OptimizedLogin always saves the session: keep it out of .sessions/
+  before(() => { SessionManager.configure({ store: new MemorySessionStore() }); });
+  after(() => { overrideBanescoUrls(); });
+
+  it('OptimizedLogin gets past the active connection modal and the security questions', async () => {
+    const mock = new BanescoMockServer({ activeConnection: true });
+    overrideBanescoUrls(await mock.start());
+    const login = new OptimizedLogin(mock.getCredentials(), true);
+
+    try {
+      const result = await login.login();
+
+      assert.equal(result.success, true, result.message);
+      assert.match(await login.getCurrentUrl() || '', /\/Mantis\/WebSite\/index\.aspx$/);
+    } finally {
+      await login.close();
+      await mock.stop();
+    }
+  });
+
+  it('BanescoScraper.scrapeAll logs in through the single form and keeps the session alive', async () => {
+    const mock = new BanescoMockServer({ loginFlow: 'single-form' });
+    overrideBanescoUrls(await mock.start());
+    const scraper = new BanescoScraper(mock.getCredentials(), { headless: true, saveSession: false, timeout: 15000 });
+
+    const session = await scraper.scrapeAll();
+
+    assert.equal(session.authResult.success, true, session.authResult.message);
+    assert.equal(session.transactionResults.length, 1);
+    assert.equal(session.transactionResults[0].success, true, session.transactionResults[0].error);
+    assert.equal(scraper.getPage(), null, 'closed after scraping');
+    await mock.stop();
+  });
+
+  it('BanescoScraper.scrapeAll reports wrong credentials as a failed login', async () => {
+    const mock = new BanescoMockServer({ loginFlow: 'single-form' });
+    overrideBanescoUrls(await mock.start());
+    const scraper = new BanescoScraper({ ...mock.getCredentials(), password: 'wrong' }, { headless: true, saveSession: false, timeout: 15000 });
+
+    const session = await scraper.scrapeAll();
+
+    assert.equal(session.authResult.success, false);
+    assert.deepEqual(session.transactionResults, []);
+    await mock.stop();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, before, after, afterEach, mock as testMock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BanescoMockServer, BANESCO_MOCK_CREDENTIALS } from '../banesco-mock-server';
+import { BANESCO_MOCK_PATHS } from '../banesco-mock-pages';
+
+interface MockResponse {
+  status: number;
+  location: string | null;
+  cookie: string | null;
+  body: string;
+}
+
+// Requests without following redirects, so login redirects and cookies can be checked
+async function request(url: string, form?: Record<string, string>, cookie?: string): Promise<MockResponse> {
+  const response = await fetch(url, {
+    method: form ? 'POST' : 'GET',
+    redirect: 'manual',
+    headers: {
+      ...(form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+      ...(cookie ? { Cookie: cookie } : {})
+    },
+    body: form ? new URLSearchParams(form).toString() : undefined
+  });
+
+  return {
+    status: response.status,
+    location: response.headers.get('location'),
+    cookie: response.headers.get('set-cookie')?.split(';')[0] || null,
+    body: await response.text()
+  };
+}
+
+function ticketOf(body: string): string {
+  const match = body.match(/name="ticket" value="([^"]*)"/);
+  assert.ok(match, 'page carries a login ticket');
+  return match[1];
+}
+
+describe('BanescoMockServer', () => {
+  let mock: BanescoMockServer;
+  let baseUrl: string;
+
+  async function start(options: ConstructorParameters<typeof BanescoMockServer>[0] = {}): Promise<void> {
+    mock = new BanescoMockServer(options);
+    baseUrl = await mock.start();
+  }
+
+  function frame(form: Record<string, string>, cookie?: string): Promise<MockResponse> {
+    return request(`${baseUrl}${BANESCO_MOCK_PATHS.FRAME}`, form, cookie);
+  }
+
+  // start() announces every server on stdout, which garbles the test runner's own output
+  before(() => { testMock.method(console, 'log', () => {}); });
+  after(() => { testMock.restoreAll(); });
+  afterEach(async () => { await mock?.stop(); });
+
+  it('logs in with username and security questions, then serves the accounts overview', async () => {
+    await start();
+
+    const shell = await request(`${baseUrl}${BANESCO_MOCK_PATHS.LOGIN}`);
+    assert.match(shell.body, /iframe id="ctl00_cp_frmAplicacion"/);
+    assert.match((await request(`${baseUrl}${BANESCO_MOCK_PATHS.FRAME}`)).body, /id="txtUsuario"/);
+
+    const questions = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    assert.match(questions.body, /id="lblPrimeraP">¿Cuál es el nombre de su primera mascota\?/);
+    assert.match(questions.body, /id="txtSegundaR"/);
+
+    const login = await frame({ step: 'preguntas', ticket: ticketOf(questions.body), txtPrimeraR: 'firulais', txtSegundaR: 'Maracaibo' });
+    assert.ok(login.cookie, 'session cookie set');
+    assert.match(login.body, /window\.top\.location\.href = "\/Mantis\/WebSite\/index\.aspx"/);
+
+    const home = await request(`${baseUrl}${BANESCO_MOCK_PATHS.HOME}`, undefined, login.cookie!);
+    assert.equal(home.status, 200);
+    assert.match(home.body, /Bienvenido, mockuser/);
+    assert.match(home.body, /0134-\*\*\*\*-\*\*-\*\*\*\*4521/);
+    assert.match(home.body, /48\.210,75/);
+  });
+
+  it('rejects a wrong answer and an unknown user', async () => {
+    await start();
+
+    const questions = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    const wrong = await frame({ step: 'preguntas', ticket: ticketOf(questions.body), txtPrimeraR: 'Firulais', txtSegundaR: 'Caracas' });
+    assert.equal(wrong.cookie, null);
+    assert.match(wrong.body, /Las respuestas no coinciden con las registradas/);
+
+    const unknown = await frame({ step: 'usuario', txtUsuario: 'otro' });
+    assert.match(unknown.body, /Usuario inválido/);
+
+    const staleTicket = await frame({ step: 'clave', ticket: 'expired', txtClave: BANESCO_MOCK_CREDENTIALS.password });
+    assert.match(staleTicket.body, /Su sesión ha expirado/);
+  });
+
+  it('asks for the password when the user has no security questions', async () => {
+    await start({ securityQuestions: [] });
+
+    const passwordStep = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    assert.match(passwordStep.body, /id="txtClave"/);
+    const ticket = ticketOf(passwordStep.body);
+
+    const wrong = await frame({ step: 'clave', ticket, txtClave: 'nope' });
+    assert.match(wrong.body, /Clave inválida/);
+
+    const login = await frame({ step: 'clave', ticket, txtClave: BANESCO_MOCK_CREDENTIALS.password });
+    assert.ok(login.cookie);
+    assert.equal(mock.getCredentials().securityQuestions, '');
+  });
+
+  it('shows the active connection modal once before the next step', async () => {
+    await start({ activeConnection: true });
+
+    const modal = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    assert.match(modal.body, /swal2-container swal2-shown/);
+    assert.match(modal.body, /conexión activa/);
+
+    const questions = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    assert.doesNotMatch(questions.body, /swal2-container swal2-shown/);
+    assert.match(questions.body, /id="lblPrimeraP"/);
+  });
+
+  it('logs in through the single form used by BanescoAuth', async () => {
+    await start({ loginFlow: 'single-form' });
+
+    const form = await request(`${baseUrl}${BANESCO_MOCK_PATHS.FRAME}`);
+    assert.match(form.body, /id="ctl00_cp_ddpControles_txtloginname"/);
+    assert.match(form.body, /id="ctl00_cp_ddpControles_txtpreguntasecreta"/);
+
+    const fields = { step: 'completo', txtloginname: 'mockuser', txtclave: BANESCO_MOCK_CREDENTIALS.password, txtPrimeraR: 'Firulais' };
+    const wrong = await frame({ ...fields, txtSegundaR: 'Caracas' });
+    assert.match(wrong.body, /Los datos suministrados son incorrectos/);
+
+    const login = await frame({ ...fields, txtSegundaR: 'Maracaibo' });
+    assert.ok(login.cookie);
+  });
+
+  it('serves the maintenance and blocked user states', async () => {
+    await start({ failure: 'maintenance' });
+    assert.match((await request(`${baseUrl}${BANESCO_MOCK_PATHS.FRAME}`)).body, /se encuentra en mantenimiento/);
+
+    mock.setFailure('blocked-user');
+    const blocked = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    assert.match(blocked.body, /Su usuario se encuentra bloqueado/);
+  });
+
+  it('redirects authenticated pages to login once the session expires or the user logs out', async () => {
+    await start();
+
+    assert.equal((await request(`${baseUrl}${BANESCO_MOCK_PATHS.HOME}`)).location, BANESCO_MOCK_PATHS.LOGIN);
+
+    const questions = await frame({ step: 'usuario', txtUsuario: BANESCO_MOCK_CREDENTIALS.username });
+    const { cookie } = await frame({ step: 'preguntas', ticket: ticketOf(questions.body), txtPrimeraR: 'Firulais', txtSegundaR: 'Maracaibo' });
+    assert.equal((await request(`${baseUrl}/Mantis/WebSite/default.aspx`, undefined, cookie!)).status, 200);
+
+    mock.setFailure('session-expired');
+    assert.equal((await request(`${baseUrl}${BANESCO_MOCK_PATHS.HOME}`, undefined, cookie!)).location, BANESCO_MOCK_PATHS.LOGIN);
+    mock.setFailure(null);
+
+    const logout = await request(`${baseUrl}${BANESCO_MOCK_PATHS.LOGOUT}`, undefined, cookie!);
+    assert.equal(logout.location, BANESCO_MOCK_PATHS.LOGIN);
+    assert.match(logout.cookie!, /^BanescoMockSession=$/);
+    assert.equal((await request(`${baseUrl}${BANESCO_MOCK_PATHS.HOME}`, undefined, cookie!)).location, BANESCO_MOCK_PATHS.LOGIN);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Banesco Mock Pages
+ *
+ * HTML templates reproducing the Banesco login shell (`iframe#ctl00_cp_frmAplicacion`)
+ * and the pages served inside it. The multi-step pages use the field names
+ * OptimizedLogin and SecurityQuestionsHandler look for (`txtUsuario`,
+ * `lblPrimeraP`/`txtPrimeraR`, `txtClave`, `bAceptar`); the single-form page
+ * uses the `ctl00_cp_ddpControles_*` ids BanescoAuth fills.
+ */
+
+import type { BanescoMockQuestion, BanescoMockAccount } from './banesco-mock-server';
+
+export const BANESCO_MOCK_PATHS = {
+  LOGIN: '/mantis/Website/Login.aspx',
+  FRAME: '/mantis/Website/CAU/inicio/LoginDNA.aspx',
+  HOME: '/Mantis/WebSite/index.aspx',
+  LOGOUT: '/Mantis/WebSite/Salir.aspx'
+};
+
+// Ids used by the real site for up to four security questions
+export const QUESTION_FIELDS = [
+  { labelId: 'lblPrimeraP', inputId: 'txtPrimeraR' },
+  { labelId: 'lblSegundaP', inputId: 'txtSegundaR' },
+  { labelId: 'lblTerceraP', inputId: 'txtTerceraR' },
+  { labelId: 'lblCuartaP', inputId: 'txtCuartaR' }
+];
+
+function layout(title: string, body: string, script: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <title>${title} - Banesco (mock)</title>
+  <style>
+    body { font-family: sans-serif; margin: 1.5rem; }
+    .error { color: #b00020; }
+    .swal2-container { display: none; position: fixed; inset: 0; background: rgba(0, 0, 0, 0.4); }
+    .swal2-container.swal2-shown { display: block; }
+    .swal2-modal { margin: 15% auto; width: 60%; background: #fff; padding: 1rem; }
+  </style>
+</head>
+<body>
+${body}
+<script>${script}</script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function errorBlock(error?: string): string {
+  return error ? `<p class="error" id="lblMensaje">${escapeHtml(error)}</p>` : '';
+}
+
+function frameForm(ticket: string, step: string, content: string, error?: string): string {
+  return `
+  ${errorBlock(error)}
+  <form method="post" action="${BANESCO_MOCK_PATHS.FRAME}">
+    <input type="hidden" name="ticket" value="${escapeHtml(ticket)}">
+    <input type="hidden" name="step" value="${step}">
+    ${content}
+    <input type="submit" name="bAceptar" id="bAceptar" value="Aceptar">
+  </form>`;
+}
+
+/**
+ * Outer login page hosting the application iframe
+ */
+export function loginShellPage(): string {
+  return layout('Banesco Online', `
+  <h1>BanescOnline</h1>
+  <iframe id="ctl00_cp_frmAplicacion" name="ctl00$cp$frmAplicacion" src="${BANESCO_MOCK_PATHS.FRAME}" width="600" height="420"></iframe>`);
+}
+
+/**
+ * Step 1: username. With `activeConnection` the "conexión activa" modal is
+ * shown and the field comes back empty, like the real site does.
+ */
+export function usernamePage(error?: string, activeConnection: boolean = false): string {
+  const modal = activeConnection ? `
+  <div class="swal2-container swal2-shown">
+    <div class="swal2-modal" role="dialog">
+      <h2 class="swal2-title">Atención</h2>
+      <div class="swal2-content">Usted posee una conexión activa. Por su seguridad la sesión anterior será cerrada.</div>
+      <button type="button" class="swal2-confirm" onclick="this.closest('.swal2-container').classList.remove('swal2-shown')">Aceptar</button>
+    </div>
+  </div>` : '';
+
+  return layout('Usuario', frameForm('', 'usuario', `
+    <label for="txtUsuario">Usuario</label>
+    <input type="text" name="txtUsuario" id="txtUsuario" autocomplete="off">`, error) + modal);
+}
+
+/**
+ * Step 2: security questions; correct answers complete the login
+ */
+export function securityQuestionsPage(ticket: string, questions: BanescoMockQuestion[], error?: string): string {
+  const fields = questions.map((question, index) => {
+    const { labelId, inputId } = QUESTION_FIELDS[index];
+    return `
+    <div>
+      <span id="${labelId}">${escapeHtml(question.question)}</span>
+      <input type="password" name="${inputId}" id="${inputId}" autocomplete="off">
+    </div>`;
+  }).join('');
+
+  return layout('Preguntas de seguridad', frameForm(ticket, 'preguntas', `
+    <p>Responda sus preguntas de seguridad</p>${fields}`, error));
+}
+
+/**
+ * Step 2 when the user has no security questions: password
+ */
+export function passwordPage(ticket: string, error?: string): string {
+  return layout('Clave', frameForm(ticket, 'clave', `
+    <label for="txtClave">Clave</label>
+    <input type="password" name="txtClave" id="txtClave" autocomplete="off">`, error));
+}
+
+/**
+ * Legacy single form (username, questions and password at once) used by BanescoAuth
+ */
+export function singleFormPage(questions: BanescoMockQuestion[], error?: string): string {
+  const fields = questions.map((question, index) => {
+    const { labelId, inputId } = QUESTION_FIELDS[index];
+    return `
+      <span id="${labelId}">${escapeHtml(question.question)}</span>
+      <input type="password" name="${inputId}" id="${inputId}" autocomplete="off">`;
+  }).join('');
+
+  const questionsBlock = questions.length > 0
+    ? `<div id="ctl00_cp_ddpControles_txtpreguntasecreta">${fields}
+    </div>`
+    : '';
+
+  return layout('Acceso', `
+  ${errorBlock(error)}
+  <form method="post" action="${BANESCO_MOCK_PATHS.FRAME}">
+    <input type="hidden" name="step" value="completo">
+    <input type="text" name="txtloginname" id="ctl00_cp_ddpControles_txtloginname" autocomplete="off">
+    ${questionsBlock}
+    <input type="password" name="txtclave" id="ctl00_cp_ddpControles_txtclave" autocomplete="off">
+    <input type="submit" name="btnAcceder" id="ctl00_cp_ddpControles_btnAcceder" value="Aceptar">
+  </form>`);
+}
+
+/**
+ * Served inside the iframe after a successful login: moves the top window to the home page
+ */
+export function redirectTopPage(url: string): string {
+  return layout('Redireccionando', '<p>Redireccionando...</p>', `window.top.location.href = ${JSON.stringify(url)};`);
+}
+
+export function maintenancePage(): string {
+  return layout('Mantenimiento', `
+  <p class="error">Estimado cliente, BanescOnline se encuentra en mantenimiento. Intente más tarde.</p>`);
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function currencyLabel(currency: BanescoMockAccount['currency']): string {
+  return currency === 'USD' ? 'USD' : 'Bs.';
+}
+
+/**
+ * "Posición Consolidada" table, nested in an ASP.NET layout table like the real site
+ */
+function accountsTable(accounts: BanescoMockAccount[]): string {
+  const rows = accounts.map(account => `
+          <tr>
+            <td><a href="/Mantis/WebSite/consultamovimientoscuenta/movimientoscuenta.aspx">${escapeHtml(account.number)}</a></td>
+            <td>${escapeHtml(account.type)}</td>
+            <td>${currencyLabel(account.currency)}</td>
+            <td align="right">${formatAmount(account.balance)}</td>
+            <td align="right">${formatAmount(account.availableBalance ?? account.balance)}</td>
+          </tr>`).join('');
+
+  return `
+  <table id="ctl00_cp_tblLayout" width="100%">
+    <tr>
+      <td>
+        <h2>Posición Consolidada</h2>
+        <table id="ctl00_cp_gvCuentas" class="GridView">
+          <tr>
+            <th>Cuenta</th>
+            <th>Producto</th>
+            <th>Moneda</th>
+            <th>Saldo Actual</th>
+            <th>Saldo Disponible</th>
+          </tr>${rows}
+        </table>
+      </td>
+    </tr>
+  </table>`;
+}
+
+/**
+ * Authenticated home page (no "Login" or "txtUsuario" markers, as the
+ * session checks in OptimizedLogin and SessionManager expect)
+ */
+export function homePage(username: string, accounts: BanescoMockAccount[]): string {
+  return layout('Inicio', `
+  <h1>Banesco Banco Universal</h1>
+  <p>Bienvenido, ${escapeHtml(username)}</p>${accountsTable(accounts)}
+  <a id="lnkSalir" href="${BANESCO_MOCK_PATHS.LOGOUT}">Salir</a>`);
+}
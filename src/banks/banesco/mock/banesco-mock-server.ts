@@ -0,0 +1,355 @@
+/**
+ * Banesco Mock Server
+ *
+ * Local Express stand-in for BanescOnline implementing the login shell with
+ * `iframe#ctl00_cp_frmAplicacion` and the steps served inside it: username,
+ * the "conexión activa" modal, then security questions or the password, plus
+ * a home page listing the accounts overview. Question sets, accounts, the
+ * modal and failure states are configurable. Combined with
+ * `overrideBanescoUrls()` it lets OptimizedLogin (multi-step flow) or
+ * BanescoAuth (single-form flow) log in without touching the real bank.
+ *
+ * @example
+ * const mock = new BanescoMockServer({ activeConnection: true });
+ * overrideBanescoUrls(await mock.start());
+ * const result = await new OptimizedLogin(mock.getCredentials(), true).login();
+ * await mock.stop();
+ * overrideBanescoUrls();
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import type { BanescCredentials } from '../types';
+import {
+  BANESCO_MOCK_PATHS,
+  QUESTION_FIELDS,
+  loginShellPage,
+  usernamePage,
+  securityQuestionsPage,
+  passwordPage,
+  singleFormPage,
+  redirectTopPage,
+  maintenancePage,
+  homePage
+} from './banesco-mock-pages';
+
+export interface BanescoMockQuestion {
+  question: string;
+  answer: string;
+  keyword: string;   // Keyword used in the credentials' securityQuestions string
+}
+
+export interface BanescoMockAccount {
+  number: string;               // Masked as shown by the bank (0134-****-**-****1234)
+  type: string;                 // Product name, e.g. 'Cuenta Corriente'
+  currency: 'VES' | 'USD';
+  balance: number;
+  availableBalance?: number;    // Default: balance
+}
+
+export type BanescoMockLoginFlow =
+  | 'multi-step'     // Username → questions, or password when there are none (OptimizedLogin)
+  | 'single-form';   // All fields in one form (BanescoAuth)
+
+export type BanescoMockFailure =
+  | 'maintenance'        // Iframe shows a maintenance notice instead of the form
+  | 'blocked-user'       // Username step rejects the user as blocked
+  | 'session-expired';   // Every authenticated page redirects to login
+
+export interface BanescoMockOptions {
+  port?: number;                           // Default: random free port
+  username?: string;                       // Default: BANESCO_MOCK_CREDENTIALS.username
+  password?: string;                       // Default: BANESCO_MOCK_CREDENTIALS.password
+  securityQuestions?: BanescoMockQuestion[]; // Default: two questions, [] skips the step
+  activeConnection?: boolean;              // Show the "conexión activa" modal once (default: false)
+  loginFlow?: BanescoMockLoginFlow;        // Default: 'multi-step'
+  failure?: BanescoMockFailure;            // Default: none
+  accounts?: BanescoMockAccount[];         // Default: BANESCO_MOCK_ACCOUNTS
+}
+
+interface PendingLogin {
+  username: string;
+}
+
+const SESSION_COOKIE = 'BanescoMockSession';
+
+export const BANESCO_MOCK_QUESTIONS: BanescoMockQuestion[] = [
+  { question: '¿Cuál es el nombre de su primera mascota?', answer: 'Firulais', keyword: 'mascota' },
+  { question: '¿En qué ciudad nació su madre?', answer: 'Maracaibo', keyword: 'ciudad' }
+];
+
+export const BANESCO_MOCK_CREDENTIALS: BanescCredentials = {
+  username: 'mockuser',
+  password: 'mock-password',
+  securityQuestions: 'mascota:Firulais,ciudad:Maracaibo'
+};
+
+export const BANESCO_MOCK_ACCOUNTS: BanescoMockAccount[] = [
+  { number: '0134-****-**-****4521', type: 'Cuenta Corriente', currency: 'VES', balance: 48210.75, availableBalance: 47960.75 },
+  { number: '0134-****-**-****8830', type: 'Cuenta de Ahorro', currency: 'VES', balance: 1250 },
+  { number: '0134-****-**-****0917', type: 'Cuenta Verde en Divisas', currency: 'USD', balance: 310.4 }
+];
+
+export class BanescoMockServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private sessions = new Map<string, string>();
+  private pendingLogins = new Map<string, PendingLogin>();
+  private username: string;
+  private password: string;
+  private questions: BanescoMockQuestion[];
+  private activeConnection: boolean;
+  private loginFlow: BanescoMockLoginFlow;
+  private failure: BanescoMockFailure | null;
+  private accounts: BanescoMockAccount[];
+  private port: number;
+
+  constructor(options: BanescoMockOptions = {}) {
+    this.username = options.username || BANESCO_MOCK_CREDENTIALS.username;
+    this.password = options.password || BANESCO_MOCK_CREDENTIALS.password;
+    this.questions = options.securityQuestions || BANESCO_MOCK_QUESTIONS;
+    this.activeConnection = options.activeConnection ?? false;
+    this.loginFlow = options.loginFlow || 'multi-step';
+    this.failure = options.failure || null;
+    this.accounts = options.accounts || BANESCO_MOCK_ACCOUNTS;
+    this.port = options.port ?? 0;
+
+    if (this.questions.length > QUESTION_FIELDS.length) {
+      throw new Error(`Banesco mock supports at most ${QUESTION_FIELDS.length} security questions`);
+    }
+
+    this.app = express();
+    this.app.use(express.urlencoded({ extended: false }));
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.app.get(BANESCO_MOCK_PATHS.LOGIN, (req: Request, res: Response) => {
+      res.send(loginShellPage());
+    });
+
+    this.app.get(BANESCO_MOCK_PATHS.FRAME, (req: Request, res: Response) => {
+      if (this.failure === 'maintenance') {
+        res.send(maintenancePage());
+        return;
+      }
+
+      res.send(this.loginFlow === 'single-form' ? singleFormPage(this.questions) : usernamePage());
+    });
+
+    this.app.post(BANESCO_MOCK_PATHS.FRAME, (req: Request, res: Response) => {
+      switch (req.body.step) {
+        case 'usuario':
+          this.handleUsername(req, res);
+          break;
+        case 'preguntas':
+          this.handleQuestions(req, res);
+          break;
+        case 'clave':
+          this.handlePassword(req, res);
+          break;
+        case 'completo':
+          this.handleSingleForm(req, res);
+          break;
+        default:
+          res.status(400).send(usernamePage('Solicitud inválida.'));
+      }
+    });
+
+    this.app.get(BANESCO_MOCK_PATHS.LOGOUT, (req: Request, res: Response) => {
+      const token = this.getSessionToken(req);
+      if (token) {
+        this.sessions.delete(token);
+      }
+      res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/; Max-Age=0`);
+      res.redirect(BANESCO_MOCK_PATHS.LOGIN);
+    });
+
+    // Authenticated area (the real site uses both index.aspx and default.aspx)
+    this.app.get([BANESCO_MOCK_PATHS.HOME, '/Mantis/WebSite/default.aspx'], this.requireSession, (req: Request, res: Response) => {
+      res.send(homePage(this.sessions.get(this.getSessionToken(req)!)!, this.accounts));
+    });
+  }
+
+  private handleUsername(req: Request, res: Response): void {
+    const username = String(req.body.txtUsuario || '').trim();
+
+    if (this.failure === 'blocked-user') {
+      res.send(usernamePage('Su usuario se encuentra bloqueado. Comuníquese con Banesco.'));
+      return;
+    }
+
+    if (username !== this.username) {
+      res.send(usernamePage('Usuario inválido. Verifique e intente nuevamente.'));
+      return;
+    }
+
+    // The modal appears once per server run, then the user must re-submit
+    if (this.activeConnection) {
+      this.activeConnection = false;
+      res.send(usernamePage(undefined, true));
+      return;
+    }
+
+    const ticket = randomBytes(12).toString('hex');
+    this.pendingLogins.set(ticket, { username });
+
+    res.send(this.questions.length > 0
+      ? securityQuestionsPage(ticket, this.questions)
+      : passwordPage(ticket));
+  }
+
+  /**
+   * Correct answers complete the login, as OptimizedLogin expects (it only asks
+   * for the password when no questions are shown)
+   */
+  private handleQuestions(req: Request, res: Response): void {
+    const ticket = String(req.body.ticket || '');
+    const pending = this.pendingLogins.get(ticket);
+
+    if (!pending) {
+      res.send(usernamePage('Su sesión ha expirado. Ingrese nuevamente.'));
+      return;
+    }
+
+    if (!this.answersMatch(req.body)) {
+      res.send(securityQuestionsPage(ticket, this.questions, 'Las respuestas no coinciden con las registradas.'));
+      return;
+    }
+
+    this.pendingLogins.delete(ticket);
+    this.startSession(res, pending.username);
+  }
+
+  private handlePassword(req: Request, res: Response): void {
+    const ticket = String(req.body.ticket || '');
+    const pending = this.pendingLogins.get(ticket);
+
+    if (!pending) {
+      res.send(usernamePage('Su sesión ha expirado. Ingrese nuevamente.'));
+      return;
+    }
+
+    if (req.body.txtClave !== this.password) {
+      res.send(passwordPage(ticket, 'Clave inválida.'));
+      return;
+    }
+
+    this.pendingLogins.delete(ticket);
+    this.startSession(res, pending.username);
+  }
+
+  private handleSingleForm(req: Request, res: Response): void {
+    if (this.failure === 'blocked-user') {
+      res.send(singleFormPage(this.questions, 'Su usuario se encuentra bloqueado. Comuníquese con Banesco.'));
+      return;
+    }
+
+    const username = String(req.body.txtloginname || '').trim();
+    if (username !== this.username || req.body.txtclave !== this.password || !this.answersMatch(req.body)) {
+      res.send(singleFormPage(this.questions, 'Los datos suministrados son incorrectos.'));
+      return;
+    }
+
+    this.startSession(res, username);
+  }
+
+  private answersMatch(body: Record<string, string>): boolean {
+    return this.questions.every((question, index) =>
+      String(body[QUESTION_FIELDS[index].inputId] || '').trim().toLowerCase() === question.answer.trim().toLowerCase()
+    );
+  }
+
+  private startSession(res: Response, username: string): void {
+    const token = randomBytes(16).toString('hex');
+    this.sessions.set(token, username);
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${token}; Path=/; HttpOnly`);
+    res.send(redirectTopPage(BANESCO_MOCK_PATHS.HOME));
+  }
+
+  private requireSession = (req: Request, res: Response, next: NextFunction): void => {
+    const token = this.getSessionToken(req);
+
+    if (this.failure === 'session-expired' || !token || !this.sessions.has(token)) {
+      res.redirect(BANESCO_MOCK_PATHS.LOGIN);
+      return;
+    }
+
+    next();
+  };
+
+  private getSessionToken(req: Request): string | null {
+    const cookies = req.headers.cookie || '';
+    const match = cookies.split(';')
+      .map(cookie => cookie.trim())
+      .find(cookie => cookie.startsWith(`${SESSION_COOKIE}=`));
+
+    return match ? match.substring(SESSION_COOKIE.length + 1) || null : null;
+  }
+
+  /**
+   * Start the mock and return its base URL
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      await new Promise<void>((resolve, reject) => {
+        this.server = this.app.listen(this.port, '127.0.0.1', () => resolve());
+        this.server.on('error', reject);
+      });
+      console.log(`🏦 Banesco mock server running on ${this.getBaseUrl()}`);
+    }
+
+    return this.getBaseUrl();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+    this.sessions.clear();
+    this.pendingLogins.clear();
+  }
+
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('Banesco mock server not started');
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Switch failure state at runtime (null restores normal behaviour)
+   */
+  setFailure(failure: BanescoMockFailure | null): void {
+    this.failure = failure;
+  }
+
+  /**
+   * Show the "conexión activa" modal on the next username submission
+   */
+  triggerActiveConnection(): void {
+    this.activeConnection = true;
+  }
+
+  /**
+   * Credentials (with a matching securityQuestions string) accepted by the mock
+   */
+  getCredentials(): BanescCredentials {
+    return {
+      username: this.username,
+      password: this.password,
+      securityQuestions: this.questions
+        .map(question => `${question.keyword}:${question.answer}`)
+        .join(',')
+    };
+  }
+
+  getAccounts(): BanescoMockAccount[] {
+    return this.accounts;
+  }
+}
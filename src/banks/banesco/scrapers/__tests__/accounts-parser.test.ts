@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { detectBanescoCurrency, parseBanescoAccounts } from '../accounts-parser';
+import type { RejectedAccountRow } from '../accounts-parser';
+
+const FIXTURES = join(process.cwd(), 'src/banks/banesco/scrapers/__tests__/fixtures');
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), 'utf-8');
+}
+
+describe('parseBanescoAccounts (saved Posición Consolidada)', () => {
+  const rejected: RejectedAccountRow[] = [];
+  const accounts = parseBanescoAccounts(fixture('posicion-consolidada.html'), row => rejected.push(row));
+
+  it('reads every account row and skips layout tables and totals', () => {
+    assert.deepEqual(accounts.map(account => account.accountNumber), [
+      '0134-****-**-****4521',
+      '0134-****-**-****7788',
+      '0134-****-**-****9034'
+    ]);
+  });
+
+  it('reads current and available balances by header', () => {
+    const [current, savings, dollars] = accounts;
+
+    assert.equal(current.balance, 15234.56);
+    assert.equal(current.availableBalance, 14900.06);
+    assert.deepEqual(current.balanceMoney, { cents: 1523456, currency: 'VES' });
+    assert.equal(savings.balance, -1250);
+    assert.equal(dollars.balance, 1020.5);
+    assert.equal(dollars.availableBalance, 1000);
+  });
+
+  it('reads type and currency', () => {
+    assert.deepEqual(accounts.map(({ accountType, currency }) => [accountType, currency]), [
+      ['Cuenta Corriente', 'VES'],
+      ['Cuenta de Ahorro', 'VES'],
+      ['Cuenta Verde Dólares', 'USD']
+    ]);
+    assert.ok(accounts.every(account => account.bankName === 'Banesco' && account.status === 'active'));
+  });
+
+  it('reports rows without a readable balance instead of failing the table', () => {
+    assert.equal(rejected.length, 1);
+    assert.equal(rejected[0].row[0], '0134-****-**-****6120');
+    assert.match(rejected[0].error, /Unreadable balance/);
+  });
+});
+
+describe('parseBanescoAccounts (edge cases)', () => {
+  it('rejects an unreadable current balance instead of using the available one', () => {
+    const rejected: RejectedAccountRow[] = [];
+    const accounts = parseBanescoAccounts(`
+      <table>
+        <tr><th>Cuenta</th><th>Saldo Actual</th><th>Saldo Disponible</th></tr>
+        <tr><td>0134-****-1234</td><td>--</td><td>10,00</td></tr>
+      </table>`, row => rejected.push(row));
+
+    assert.deepEqual(accounts, []);
+    assert.match(rejected[0].error, /Unreadable balance for account 0134-\*\*\*\*-1234/);
+  });
+
+  it('reports the available balance when the table has no current balance', () => {
+    const [account] = parseBanescoAccounts(`
+      <table>
+        <tr><th>Cuenta</th><th>Saldo Disponible</th></tr>
+        <tr><td>0134-****-1234</td><td>10,00</td></tr>
+      </table>`);
+
+    assert.equal(account.balance, 10);
+  });
+
+  it('ignores tables without account columns', () => {
+    assert.deepEqual(parseBanescoAccounts('<table><tr><th>Fecha</th><th>Monto</th></tr><tr><td>1</td><td>2</td></tr></table>'), []);
+  });
+});
+
+describe('detectBanescoCurrency', () => {
+  it('normalizes currency labels', () => {
+    assert.equal(detectBanescoCurrency('Bolívares'), 'VES');
+    assert.equal(detectBanescoCurrency('Dólares'), 'USD');
+    assert.equal(detectBanescoCurrency('$'), 'USD');
+    assert.equal(detectBanescoCurrency('EUR'), 'EUR');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { chromium } from 'playwright';
+import type { Browser, Page } from 'playwright';
+import { BanescoTransactionsScraper } from '../transactions';
+
+const FIXTURES = join(process.cwd(), 'src/banks/banesco/scrapers/__tests__/fixtures/replay');
+
+// Replay drives a real page; skipped where Playwright's Chromium is not installed
+const browserMissing = !existsSync(chromium.executablePath()) && 'Chromium not installed (npx playwright install chromium)';
+
+describe('BanescoTransactionsScraper replay of saved movement pages', { skip: browserMissing }, () => {
+  let browser: Browser;
+  let page: Page;
+
+  before(async () => {
+    browser = await chromium.launch();
+    page = await browser.newPage();
+  });
+  after(async () => { await browser?.close(); });
+
+  it('returns one result per capture, checked against its own account summary', async () => {
+    const scraper = new BanescoTransactionsScraper(page, { replay: { fixturesDir: FIXTURES }, extractAccountSummary: true });
+    const results = await scraper.scrapeAllAccounts();
+
+    assert.equal(results.length, 2);
+    assert.deepEqual(results.map(result => result.accountSummary?.accountNumber), ['01340000000000001234', '01340000000000005678']);
+    assert.deepEqual(results.map(result => [result.accountSummary?.previousBalance, result.accountSummary?.currentBalance]), [
+      [1000, 1149.5],
+      [500, 788]
+    ]);
+
+    for (const result of results) {
+      assert.equal(result.success, true);
+      assert.equal(result.metadata!.balanceCheck.valid, true);
+      assert.deepEqual(result.metadata!.balanceCheck.accounts.map((account: { summaryChecked: boolean }) => account.summaryChecked), [true]);
+    }
+
+    assert.deepEqual(results[0].data!.map(transaction => [transaction.date, transaction.type, transaction.amount, transaction.balance]), [
+      ['2025-01-15', 'credit', 250, 1250],
+      ['2025-01-16', 'debit', 100.5, 1149.5]
+    ]);
+    assert.ok(results[1].data!.every(transaction => transaction.accountNumber === '01340000000000005678'));
+  });
+
+  it('merges the captures without mixing up their summaries', async () => {
+    const scraper = new BanescoTransactionsScraper(page, { replay: { fixturesDir: FIXTURES }, extractAccountSummary: true });
+    const result = await scraper.scrapeTransactions();
+
+    assert.equal(result.success, true);
+    assert.equal(result.data!.length, 4);
+    assert.equal(result.accountSummary, undefined);
+    assert.deepEqual(result.metadata!.fixtures.map((fixture: any) => [fixture.file, fixture.count, fixture.accountSummary.currentBalance]), [
+      ['movimientos-1234.html', 2, 1149.5],
+      ['movimientos-5678.html', 2, 788]
+    ]);
+
+    const balanceCheck = result.metadata!.balanceCheck;
+    assert.equal(balanceCheck.valid, true);
+    assert.deepEqual(balanceCheck.accounts.map((account: any) => [account.account, account.summaryChecked]), [
+      ['01340000000000001234', true],
+      ['01340000000000005678', true]
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Banesco Accounts Table Parser
+ *
+ * Pure HTML parser for the Banesco accounts overview ("Posición Consolidada").
+ * It works on any HTML string, so it can be run against live pages and
+ * against captures saved by HTMLSaver alike. Columns are located by header
+ * text; layout tables that wrap other tables are ignored. A row whose
+ * balances cannot be read ("--", "N/D") is reported and skipped instead of
+ * failing the whole table; an unreadable current balance is never replaced
+ * by the available one.
+ */
+
+import { load } from 'cheerio';
+import type { BanescAccount } from '../types';
+import { withAccountMoney } from '../../../shared/utils/money';
+import { tryParseAmount } from '../../../shared/utils/amount-parser';
+
+type CheerioRoot = ReturnType<typeof load>;
+
+interface AccountColumns {
+  number: number;
+  type: number;
+  currency: number;
+  balance: number;
+  available: number;
+}
+
+export interface RejectedAccountRow {
+  row: string[];
+  error: string;
+}
+
+/**
+ * Parse every account row found in the accounts overview table(s). Rows that
+ * cannot be parsed are passed to `onRejectedRow` (when given) and skipped.
+ */
+export function parseBanescoAccounts(
+  html: string,
+  onRejectedRow?: (rejected: RejectedAccountRow) => void
+): BanescAccount[] {
+  const $ = load(html);
+  const accounts: BanescAccount[] = [];
+
+  $('table').each((_, table) => {
+    // Only innermost tables hold data; outer ones are ASP.NET layout
+    if ($(table).find('table').length > 0) {
+      return;
+    }
+
+    const rows = $(table).find('tr').toArray();
+    const headerIndex = rows.findIndex(row => $(row).find('th').length > 0);
+    const headerRow = headerIndex === -1 ? rows[0] : rows[headerIndex];
+    if (!headerRow) {
+      return;
+    }
+
+    const headers = cellTexts($, headerRow).map(normalizeText);
+    const columns = findColumns(headers);
+    if (!columns) {
+      return;
+    }
+
+    rows.slice(rows.indexOf(headerRow) + 1).forEach(row => {
+      const cells = cellTexts($, row);
+      try {
+        const account = parseAccountRow(cells, columns);
+        if (account) {
+          accounts.push(account);
+        }
+      } catch (error) {
+        onRejectedRow?.({ row: cells, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+
+  return accounts;
+}
+
+function findColumns(headers: string[]): AccountColumns | null {
+  const find = (match: (header: string) => boolean) => headers.findIndex(match);
+
+  const number = find(header =>
+    header.includes('numero') || (header.includes('cuenta') && !header.includes('tipo'))
+  );
+  const available = find(header => header.includes('disponible'));
+  let balance = find(header => header.includes('saldo') && (header.includes('actual') || header.includes('contable')));
+  if (balance === -1) {
+    balance = find(header =>
+      header.includes('saldo') && !['disponible', 'diferido', 'bloqueado'].some(word => header.includes(word))
+    );
+  }
+
+  if (number === -1 || (balance === -1 && available === -1)) {
+    return null;
+  }
+
+  return {
+    number,
+    type: find(header => header.includes('tipo') || header.includes('producto') || header.includes('descripcion')),
+    currency: find(header => header.includes('moneda') || header.includes('divisa')),
+    balance,
+    available
+  };
+}
+
+function parseAccountRow(cells: string[], columns: AccountColumns): BanescAccount | null {
+  const cell = (column: number) => (column === -1 ? '' : cells[column] || '');
+  const accountNumber = cell(columns.number).replace(/\s+/g, '');
+
+  // Skip empty, total and non-account rows (masked numbers keep at least 4 digits)
+  if (!accountNumber || /^total/i.test(cells[0] || '') || (accountNumber.match(/\d/g) || []).length < 4) {
+    return null;
+  }
+
+  const accountType = cell(columns.type).replace(/\s+/g, ' ').trim();
+  const availableBalance = columns.available === -1 ? undefined : parseBanescoAmount(cell(columns.available));
+  // Only a table without a current balance column reports the available one;
+  // an unreadable current balance is never replaced (holds make them differ)
+  const balance = columns.balance === -1 ? availableBalance : parseBanescoAmount(cell(columns.balance));
+
+  if (balance === undefined) {
+    throw new Error(`Unreadable balance for account ${accountNumber}`);
+  }
+
+  return withAccountMoney({
+    accountNumber,
+    accountType: accountType || 'unknown',
+    accountName: accountType || undefined,
+    balance,
+    availableBalance,
+    currency: detectBanescoCurrency(
+      cell(columns.currency) || `${accountType} ${cell(columns.balance)} ${cell(columns.available)}`
+    ),
+    status: 'active',
+    bankName: 'Banesco' as const
+  });
+}
+
+function cellTexts($: CheerioRoot, row: Parameters<CheerioRoot>[0]): string[] {
+  return $(row).find('th, td').toArray().map(cell => $(cell).text().replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Parse a Banesco formatted amount: "1.234,56", "-1.234,56" or "(1.234,56)";
+ * undefined for cells without a readable amount ("--", "N/D")
+ */
+function parseBanescoAmount(amountString: string): number | undefined {
+  return tryParseAmount(amountString, { format: 'es-VE' })?.value;
+}
+
+/**
+ * Normalize a currency label ("Bs.", "Bolívares", "$", "Dólares", "USD") to an ISO code
+ */
+export function detectBanescoCurrency(text: string): string {
+  const normalized = normalizeText(text);
+
+  if (/\b(usd|dolar(es)?|divisas?)\b|\$/.test(normalized)) return 'USD';
+  if (/\b(eur|euros?)\b|€/.test(normalized)) return 'EUR';
+
+  return 'VES';
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .trim();
+}
@@ -1,15 +1,28 @@
 import { Page } from 'playwright';
-import { Account, ScrapingResult } from '../types/index';
+import {
+  BanescAccount,
+  ScrapingResult,
+  BanescoPeriodSelection,
+  BanescoAppliedPeriod,
+  BanescoAccountOption,
+  BANESCO_URLS,
+  BANESCO_PERIODS,
+  BANESCO_SELECTORS
+} from '../types/index';
 import { HTMLSaver } from '../../../shared/utils/html-saver';
+import { parseBanescoAccounts, detectBanescoCurrency, RejectedAccountRow } from './accounts-parser';
 
 export class AccountsScraper {
   private htmlSaver: HTMLSaver;
+  private appliedPeriod: BanescoAppliedPeriod | null = null;
+  private selectedAccount: string | null = null;
+  private navigationError: string | null = null;
 
   constructor() {
     this.htmlSaver = new HTMLSaver();
   }
 
-  async scrapeAccounts(page: Page): Promise<ScrapingResult<Account>> {
+  async scrapeAccounts(page: Page): Promise<ScrapingResult<BanescAccount>> {
     console.log('🏦 Iniciando scraping de cuentas...');
     
     try {
@@ -29,113 +42,55 @@ export class AccountsScraper {
       }
 
       console.log(`📄 Página actual: ${pageTitle}`);
-      
-      // Buscar enlaces o elementos que contengan información de cuentas
-      const accountLinks = await page.$$eval('a', links => {
-        return links
-          .map(link => ({
-            text: link.textContent?.trim() || '',
-            href: link.href || '',
-            innerHTML: link.innerHTML
-          }))
-          .filter(link => 
-            link.text.includes('cuenta') || 
-            link.text.includes('Cuenta') ||
-            link.text.includes('CUENTA') ||
-            link.href.includes('cuenta') ||
-            link.href.includes('Cuenta') ||
-            link.href.includes('MovimientosCuenta')
-          );
-      });
 
-      console.log(`🔗 Enlaces de cuentas encontrados: ${accountLinks.length}`);
-      
-      if (accountLinks.length > 0) {
-        accountLinks.forEach((link, index) => {
-          console.log(`   ${index + 1}. ${link.text} → ${link.href}`);
-        });
-      }
+      // Filas con saldos ilegibles ("--", "N/D") se reportan sin descartar la tabla
+      let rejectedRows: RejectedAccountRow[] = [];
+      const onRejectedRow = (rejected: RejectedAccountRow) => {
+        console.log(`⚠️  Fila de cuenta no procesada: ${rejected.error}`);
+        rejectedRows.push(rejected);
+      };
 
-      // Buscar elementos que contengan información de balance o números de cuenta
-      const accountElements = await page.$$eval('*', elements => {
-        const accountInfo: any[] = [];
-        
-        elements.forEach(el => {
-          const text = el.textContent?.trim() || '';
-          
-          // Buscar patrones de números de cuenta (típicamente largos)
-          const accountNumberPattern = /\b\d{10,20}\b/g;
-          const balancePattern = /\b\d{1,3}(?:\.\d{3})*(?:,\d{2})?\s*(?:Bs|BsF|Bolívares?)?\b/gi;
-          
-          const accountMatches = text.match(accountNumberPattern);
-          const balanceMatches = text.match(balancePattern);
-          
-          if (accountMatches || balanceMatches) {
-            accountInfo.push({
-              element: el.tagName,
-              text: text,
-              accountNumbers: accountMatches,
-              balances: balanceMatches,
-              className: el.className,
-              id: el.id
-            });
-          }
-        });
-        
-        return accountInfo.slice(0, 20); // Limitar a 20 para evitar spam
-      });
+      // La posición consolidada puede estar en la página o dentro del iframe de la aplicación
+      let accounts = parseBanescoAccounts(pageContent, onRejectedRow);
 
-      console.log(`📊 Elementos con información bancaria: ${accountElements.length}`);
-      
-      if (accountElements.length > 0) {
-        accountElements.forEach((element, index) => {
-          console.log(`   ${index + 1}. ${element.element}: ${element.text.substring(0, 100)}...`);
-          if (element.accountNumbers) {
-            console.log(`      Números de cuenta: ${element.accountNumbers.join(', ')}`);
+      if (accounts.length === 0) {
+        for (const frame of page.frames()) {
+          if (frame === page.mainFrame()) continue;
+
+          try {
+            rejectedRows = [];
+            accounts = parseBanescoAccounts(await frame.content(), onRejectedRow);
+          } catch {
+            continue; // Frame desconectado durante la lectura
           }
-          if (element.balances) {
-            console.log(`      Balances: ${element.balances.join(', ')}`);
+
+          if (accounts.length > 0) {
+            console.log(`🖼️  Tabla de cuentas encontrada en iframe: ${frame.url()}`);
+            break;
           }
-        });
+        }
       }
 
-      // Por ahora, crear cuentas de ejemplo basadas en los datos encontrados
-      const accounts: Account[] = [];
-      
-      // Si encontramos enlaces de cuentas, crear entradas básicas
-      accountLinks.forEach((link, index) => {
-        accounts.push({
-          accountNumber: `LINK_${index + 1}`,
-          accountType: this.extractAccountType(link.text),
-          balance: 0, // Se obtendrá en el scraping de transacciones
-          currency: 'VES',
-          status: 'active'
-        });
-      });
-
-      // Si no se encontraron enlaces pero hay elementos con números de cuenta
-      if (accounts.length === 0 && accountElements.length > 0) {
-        accountElements.forEach((element, index) => {
-          if (element.accountNumbers) {
-            element.accountNumbers.forEach((accountNumber: string) => {
-              accounts.push({
-                accountNumber: accountNumber,
-                accountType: 'unknown',
-                balance: 0,
-                currency: 'VES',
-                status: 'active'
-              });
-            });
-          }
-        });
+      if (accounts.length === 0) {
+        console.log('⚠️  No se encontró la tabla de cuentas');
+        return {
+          success: false,
+          data: [],
+          error: 'No se encontró la tabla de cuentas en la página',
+          timestamp: new Date()
+        };
       }
 
+      accounts.forEach(account => {
+        console.log(`💰 ${account.accountNumber} (${account.accountType}): ${account.balance} ${account.currency}`);
+      });
       console.log(`✅ Cuentas extraídas: ${accounts.length}`);
       
       return {
         success: true,
         data: accounts,
-        timestamp: new Date()
+        timestamp: new Date(),
+        metadata: rejectedRows.length > 0 ? { rejectedRows } : undefined
       };
 
     } catch (error: any) {
@@ -148,17 +103,6 @@ export class AccountsScraper {
     }
   }
 
-  private extractAccountType(text: string): string {
-    const lowerText = text.toLowerCase();
-    
-    if (lowerText.includes('corriente')) return 'corriente';
-    if (lowerText.includes('ahorro')) return 'ahorro';
-    if (lowerText.includes('credito') || lowerText.includes('crédito')) return 'credito';
-    if (lowerText.includes('tarjeta')) return 'tarjeta';
-    
-    return 'unknown';
-  }
-
   async getFirstAccountLink(page: Page): Promise<string | null> {
     console.log('🔍 Buscando primer enlace de cuenta...');
     
@@ -228,94 +172,171 @@ export class AccountsScraper {
       
       // Si no encontramos nada, intentar navegar directamente
       console.log('🔄 Intentando navegar directamente a la página de movimientos...');
-      const directUrl = 'https://www.banesconline.com/Mantis/WebSite/consultamovimientoscuenta/movimientoscuenta.aspx';
+      const directUrl = BANESCO_URLS.MOVEMENTS;
       console.log(`🎯 URL directa: ${directUrl}`);
       return directUrl;
     }
   }
 
-  async navigateToAccountDetails(page: Page, accountNumber?: string): Promise<boolean> {
-    console.log('🚀 Navegando a detalles de cuenta con selección automática de período...');
-    
+  /**
+   * Período consultado en la última navegación (null si no se consultó ninguno)
+   */
+  getAppliedPeriod(): BanescoAppliedPeriod | null {
+    return this.appliedPeriod;
+  }
+
+  /**
+   * Valor de la cuenta seleccionada en el dropdown en la última navegación
+   */
+  getSelectedAccount(): string | null {
+    return this.selectedAccount;
+  }
+
+  /**
+   * Motivo por el que la última navegación no pudo seleccionar la cuenta o llegar a
+   * los movimientos (null si llegó, aunque no haya encontrado movimientos)
+   */
+  getNavigationError(): string | null {
+    return this.navigationError;
+  }
+
+  /**
+   * Cuentas disponibles en el dropdown de la página de movimientos
+   */
+  async getAccountOptions(page: Page): Promise<BanescoAccountOption[]> {
+    console.log('🔍 Leyendo cuentas del dropdown de movimientos...');
+
     try {
-      // Paso 1: Navegar a la página de cuentas
-      const accountsLink = await this.getFirstAccountLink(page);
-      if (accountsLink) {
-        console.log('📍 Navegando a página de cuentas...');
-        await page.goto(accountsLink, { 
-          waitUntil: 'networkidle',
-          timeout: 30000 
-        });
-        await page.waitForTimeout(2000);
-        
-        // Guardar HTML para debug
-        await this.htmlSaver.saveHTML(page, 'accounts-main-page.html');
-        
-        // Verificar si estamos en una página con iframe
-        const currentUrl = page.url();
-        console.log(`📍 URL después de navegación: ${currentUrl}`);
+      await this.openMovementsPage(page);
+
+      if (!(await page.$(BANESCO_SELECTORS.ACCOUNT_DROPDOWN))) {
+        console.log('⚠️  No se encontró dropdown de cuentas');
+        return [];
+      }
+
+      const options = await page.$$eval(`${BANESCO_SELECTORS.ACCOUNT_DROPDOWN} option`, (opts: HTMLOptionElement[]) => {
+        return opts.map(option => ({
+          value: option.value,
+          text: option.textContent?.trim() || ''
+        }));
+      });
+
+      const accounts = options
+        .filter(option => option.value && option.value.trim() !== '')
+        .map(option => ({
+          value: option.value,
+          name: option.text.replace(/\s+/g, ' '),
+          accountNumber: extractAccountNumber(option.text) || option.value,
+          currency: detectBanescoCurrency(option.text)
+        }));
+
+      console.log(`📊 Cuentas encontradas: ${accounts.length}`);
+      accounts.forEach((account, index) => {
+        console.log(`   ${index + 1}. ${account.name} (value: ${account.value})`);
+      });
+
+      return accounts;
+
+    } catch (error: any) {
+      console.error('❌ Error leyendo cuentas del dropdown:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Ir a la página de movimientos desde la página principal (directo o a través del iframe)
+   */
+  private async openMovementsPage(page: Page): Promise<void> {
+    const accountsLink = await this.getFirstAccountLink(page);
+    if (accountsLink) {
+      console.log('📍 Navegando a página de cuentas...');
+      await page.goto(accountsLink, { 
+        waitUntil: 'networkidle',
+        timeout: 30000 
+      });
+      await page.waitForTimeout(2000);
+      
+      // Guardar HTML para debug
+      await this.htmlSaver.saveHTML(page, 'accounts-main-page.html');
+      
+      // Verificar si estamos en una página con iframe
+      const currentUrl = page.url();
+      console.log(`📍 URL después de navegación: ${currentUrl}`);
+      
+      if (currentUrl.includes('index.aspx') || currentUrl.includes('login.aspx')) {
+        console.log('📄 Detectada página con iframe, accediendo al contenido...');
         
-        if (currentUrl.includes('index.aspx') || currentUrl.includes('login.aspx')) {
-          console.log('📄 Detectada página con iframe, accediendo al contenido...');
+        // Buscar el iframe
+        const iframe = await page.$('iframe[src*="CAU/inicio/inicio.aspx"]');
+        if (iframe) {
+          console.log('✅ Iframe encontrado, esperando carga...');
+          await page.waitForTimeout(3000);
           
-          // Buscar el iframe
-          const iframe = await page.$('iframe[src*="CAU/inicio/inicio.aspx"]');
-          if (iframe) {
-            console.log('✅ Iframe encontrado, esperando carga...');
-            await page.waitForTimeout(3000);
+          const iframeContent = await iframe.contentFrame();
+          if (iframeContent) {
+            console.log('🔍 Buscando enlaces de cuenta en iframe...');
             
-            const iframeContent = await iframe.contentFrame();
-            if (iframeContent) {
-              console.log('🔍 Buscando enlaces de cuenta en iframe...');
-              
-              // Buscar enlaces que contengan "cuenta" o "movimientos"
-              const accountLinks = await iframeContent.$$eval('a', links => {
-                return links
-                  .map(link => ({
-                    text: link.textContent?.trim() || '',
-                    href: link.href || '',
-                    innerHTML: link.innerHTML
-                  }))
-                  .filter(link => 
-                    link.text.toLowerCase().includes('cuenta') || 
-                    link.text.toLowerCase().includes('movimiento') ||
-                    link.href.includes('movimiento') ||
-                    link.href.includes('cuenta')
-                  );
-              });
-              
-              console.log(`🔗 Enlaces de cuenta encontrados en iframe: ${accountLinks.length}`);
-              accountLinks.forEach((link, index) => {
-                console.log(`   ${index + 1}. ${link.text} → ${link.href}`);
-              });
+            // Buscar enlaces que contengan "cuenta" o "movimientos"
+            const accountLinks = await iframeContent.$$eval('a', links => {
+              return links
+                .map(link => ({
+                  text: link.textContent?.trim() || '',
+                  href: link.href || '',
+                  innerHTML: link.innerHTML
+                }))
+                .filter(link => 
+                  link.text.toLowerCase().includes('cuenta') || 
+                  link.text.toLowerCase().includes('movimiento') ||
+                  link.href.includes('movimiento') ||
+                  link.href.includes('cuenta')
+                );
+            });
+            
+            console.log(`🔗 Enlaces de cuenta encontrados en iframe: ${accountLinks.length}`);
+            accountLinks.forEach((link, index) => {
+              console.log(`   ${index + 1}. ${link.text} → ${link.href}`);
+            });
+            
+            // Hacer clic en el primer enlace válido
+            if (accountLinks.length > 0) {
+              const firstLink = accountLinks[0];
+              console.log(`🎯 Haciendo clic en: ${firstLink.text}`);
               
-              // Hacer clic en el primer enlace válido
-              if (accountLinks.length > 0) {
-                const firstLink = accountLinks[0];
-                console.log(`🎯 Haciendo clic en: ${firstLink.text}`);
+              // Buscar el enlace en el iframe y hacer clic
+              const linkElement = await iframeContent.$(`a[href="${firstLink.href}"]`);
+              if (linkElement) {
+                await linkElement.click();
+                
+                console.log('⏳ Esperando navegación a página de movimientos...');
+                await page.waitForLoadState('networkidle');
+                await page.waitForTimeout(3000);
                 
-                // Buscar el enlace en el iframe y hacer clic
-                const linkElement = await iframeContent.$(`a[href="${firstLink.href}"]`);
-                if (linkElement) {
-                  await linkElement.click();
-                  
-                  console.log('⏳ Esperando navegación a página de movimientos...');
-                  await page.waitForLoadState('networkidle');
-                  await page.waitForTimeout(3000);
-                  
-                  // Guardar HTML después de hacer clic
-                  await this.htmlSaver.saveHTML(page, 'accounts-after-iframe-click.html');
-                }
+                // Guardar HTML después de hacer clic
+                await this.htmlSaver.saveHTML(page, 'accounts-after-iframe-click.html');
               }
             }
           }
         }
       }
+    }
+  }
+
+  async navigateToAccountDetails(page: Page, accountNumber?: string, selection?: BanescoPeriodSelection): Promise<boolean> {
+    console.log(selection
+      ? '🚀 Navegando a detalles de cuenta con período solicitado...'
+      : '🚀 Navegando a detalles de cuenta con selección automática de período...');
+    this.appliedPeriod = null;
+    this.selectedAccount = null;
+    this.navigationError = null;
+    
+    try {
+      // Paso 1: Navegar a la página de cuentas
+      await this.openMovementsPage(page);
 
       // Paso 2: Seleccionar cuenta del dropdown
       console.log('🔍 Buscando dropdown de cuentas...');
       
-      const dropdownSelector = 'select[id*="ddlCuenta"], select[name*="ddlCuenta"]';
+      const dropdownSelector = BANESCO_SELECTORS.ACCOUNT_DROPDOWN;
       const dropdown = await page.$(dropdownSelector);
       
       if (dropdown) {
@@ -337,8 +358,16 @@ export class AccountsScraper {
           }
         });
 
-        // Seleccionar la primera cuenta con valor válido
-        const accountOption = options.find(opt => opt.value && opt.value !== '');
+        // Seleccionar la cuenta solicitada o, si no se indicó, la primera con valor válido
+        const accountOption = accountNumber
+          ? options.find(opt => opt.value === accountNumber || (opt.value && opt.text.includes(accountNumber)))
+          : options.find(opt => opt.value && opt.value !== '');
+
+        if (accountNumber && !accountOption) {
+          console.log(`❌ Cuenta ${accountNumber} no encontrada en el dropdown`);
+          this.navigationError = `Account ${accountNumber} not found in the account dropdown`;
+          return false;
+        }
         
         if (accountOption) {
           console.log(`🎯 Seleccionando cuenta: ${accountOption.text}`);
@@ -353,7 +382,12 @@ export class AccountsScraper {
           
           // Guardar HTML después de seleccionar cuenta
           await this.htmlSaver.saveHTML(page, 'account-selected-page.html');
+          this.selectedAccount = accountOption.value;
         }
+      } else if (accountNumber) {
+        console.log(`❌ No se encontró dropdown de cuentas para seleccionar ${accountNumber}`);
+        this.navigationError = `No account dropdown to select account ${accountNumber}`;
+        return false;
       } else {
         console.log('⚠️  No se encontró dropdown de cuentas');
       }
@@ -369,22 +403,20 @@ export class AccountsScraper {
 
       if (isMovementsPage) {
         console.log('✅ Ya estamos en la página de movimientos');
+
+        // PASO 3.1: Período o rango solicitado explícitamente
+        if (selection) {
+          return await this.consultSelection(page, selection);
+        }
         
-        // PASO 3.1: Intentar múltiples períodos hasta encontrar transacciones
-        const periodsToTry = [
-          { value: 'PeriodoDiaAnterior', name: 'Día Anterior' },
-          { value: 'PeriodoSemanaAnterior', name: 'Semana Anterior' },
-          { value: 'PeriodoMesAnterior', name: 'Mes Anterior' },
-          { value: 'PeriodoTrimestre', name: 'Trimestre Anterior' },
-          { value: 'PeriodoSemestre', name: 'Semestre Anterior' }
-        ];
-
-        for (const period of periodsToTry) {
+        // PASO 3.2: Intentar múltiples períodos hasta encontrar transacciones
+        for (const period of BANESCO_PERIODS) {
           console.log(`\n📅 Intentando período: ${period.name}...`);
           
           const success = await this.tryPeriodAndConsult(page, period.value, period.name);
           if (success) {
             console.log(`🎯 ¡Éxito! Encontradas transacciones con período: ${period.name}`);
+            this.appliedPeriod = { period: period.value, label: period.name, automatic: true };
             return true;
           } else {
             console.log(`⚠️  No se encontraron transacciones en: ${period.name}`);
@@ -439,6 +471,7 @@ export class AccountsScraper {
 
       if (!clicked && !isMovementsPage) {
         console.log('⚠️  No se encontró botón o enlace para ver movimientos');
+        this.navigationError = 'No link or button to the movements page';
         return false;
       }
 
@@ -451,23 +484,81 @@ export class AccountsScraper {
 
     } catch (error: any) {
       console.error('❌ Error navegando a detalles de cuenta:', error);
+      this.navigationError = `Navigation to the movements page failed: ${error.message}`;
       return false;
     }
   }
 
+  /**
+   * Consultar un período o rango explícito (un resultado vacío también es válido)
+   */
+  private async consultSelection(page: Page, selection: BanescoPeriodSelection): Promise<boolean> {
+    if ('period' in selection) {
+      const periodName = BANESCO_PERIODS.find(period => period.value === selection.period)?.name || selection.period;
+      console.log(`\n📅 Consultando período solicitado: ${periodName}...`);
+
+      const consulted = await this.selectPeriodAndConsult(page, selection.period, periodName);
+      if (consulted) {
+        this.appliedPeriod = { period: selection.period, label: periodName, automatic: false };
+      }
+      return consulted;
+    }
+
+    console.log(`\n📅 Consultando rango solicitado: ${selection.from} → ${selection.to}...`);
+
+    const consulted = await this.selectRangeAndConsult(page, selection.from, selection.to);
+    if (consulted) {
+      this.appliedPeriod = {
+        label: `${selection.from} → ${selection.to}`,
+        from: selection.from,
+        to: selection.to,
+        automatic: false
+      };
+    }
+    return consulted;
+  }
+
   private async tryPeriodAndConsult(page: Page, periodValue: string, periodName: string): Promise<boolean> {
+    const consulted = await this.selectPeriodAndConsult(page, periodValue, periodName);
+    if (!consulted) {
+      return false;
+    }
+
+    // Verificar si se encontraron transacciones
+    const hasTransactions = await this.checkForTransactions(page);
+    
+    if (hasTransactions) {
+      console.log(`🎉 ¡Transacciones encontradas con período "${periodName}"!`);
+      const newTitle = await page.title();
+      const newUrl = page.url();
+      console.log(`📄 Página final: ${newTitle}`);
+      console.log(`🔗 URL final: ${newUrl}`);
+      return true;
+    } else {
+      console.log(`📭 No se encontraron transacciones en período "${periodName}"`);
+      return false;
+    }
+  }
+
+  private async selectPeriodAndConsult(page: Page, periodValue: string, periodName: string): Promise<boolean> {
     try {
       console.log(`🔄 Configurando período a "${periodName}"...`);
       
-      const periodDropdown = await page.$('#ctl00_cp_ddlPeriodo');
+      const periodDropdown = await page.$(BANESCO_SELECTORS.PERIOD_DROPDOWN);
       
       if (!periodDropdown) {
         console.log('⚠️  No se encontró el dropdown de período');
         return false;
       }
+
+      // Volver al modo período si se usó un rango antes
+      const periodRadio = await page.$(BANESCO_SELECTORS.PERIOD_RADIO);
+      if (periodRadio) {
+        await periodRadio.check();
+      }
       
       // Obtener opciones actuales
-      const periodOptions = await page.$$eval('#ctl00_cp_ddlPeriodo option', (opts: HTMLOptionElement[]) => {
+      const periodOptions = await page.$$eval(`${BANESCO_SELECTORS.PERIOD_DROPDOWN} option`, (opts: HTMLOptionElement[]) => {
         return opts.map(option => ({
           value: option.value,
           text: option.textContent?.trim() || '',
@@ -493,48 +584,69 @@ export class AccountsScraper {
       }
 
       console.log(`🎯 Seleccionando: ${targetOption.text}`);
-      await page.selectOption('#ctl00_cp_ddlPeriodo', targetOption.value);
+      await page.selectOption(BANESCO_SELECTORS.PERIOD_DROPDOWN, targetOption.value);
       
       // Esperar un momento para que se actualice la página
       await page.waitForTimeout(2000);
       console.log(`✅ Período "${periodName}" seleccionado`);
 
-      // Buscar y hacer clic en el botón Consultar
-      const consultarButton = await page.$('input[value="Consultar"]');
-      if (!consultarButton) {
-        console.log('⚠️  No se encontró el botón "Consultar"');
-        return false;
+      return await this.clickConsult(page, `período "${periodName}"`, `account-movements-${periodValue}.html`);
+
+    } catch (error) {
+      console.log(`❌ Error intentando período "${periodName}":`, error);
+      return false;
+    }
+  }
+
+  private async selectRangeAndConsult(page: Page, from: string, to: string): Promise<boolean> {
+    try {
+      // Banesco espera DD/MM/YYYY
+      const toBanescoDate = (isoDate: string) => isoDate.split('-').reverse().join('/');
+
+      const rangeRadio = await page.$(BANESCO_SELECTORS.RANGE_RADIO);
+      if (rangeRadio) {
+        await rangeRadio.check();
+        await page.waitForTimeout(1000);
       }
 
-      console.log(`🔍 Haciendo clic en "Consultar" con período "${periodName}"...`);
-      await consultarButton.click();
-      
-      console.log('⏳ Esperando carga de movimientos...');
-      await page.waitForLoadState('networkidle');
-      await page.waitForTimeout(3000);
-      
-      // Guardar HTML después de consultar
-      await this.htmlSaver.saveHTML(page, `account-movements-${periodValue}.html`);
-      
-      // Verificar si se encontraron transacciones
-      const hasTransactions = await this.checkForTransactions(page);
-      
-      if (hasTransactions) {
-        console.log(`🎉 ¡Transacciones encontradas con período "${periodName}"!`);
-        const newTitle = await page.title();
-        const newUrl = page.url();
-        console.log(`📄 Página final: ${newTitle}`);
-        console.log(`🔗 URL final: ${newUrl}`);
-        return true;
-      } else {
-        console.log(`📭 No se encontraron transacciones en período "${periodName}"`);
+      const fromInput = await page.$(BANESCO_SELECTORS.DATE_FROM);
+      const toInput = await page.$(BANESCO_SELECTORS.DATE_TO);
+
+      if (!fromInput || !toInput) {
+        console.log('⚠️  No se encontraron los campos de fecha del rango');
         return false;
       }
 
+      await fromInput.fill(toBanescoDate(from));
+      await toInput.fill(toBanescoDate(to));
+      console.log(`✅ Rango ${from} → ${to} configurado`);
+
+      return await this.clickConsult(page, `rango ${from} → ${to}`, `account-movements-${from}-${to}.html`);
+
     } catch (error) {
-      console.log(`❌ Error intentando período "${periodName}":`, error);
+      console.log(`❌ Error configurando rango ${from} → ${to}:`, error);
+      return false;
+    }
+  }
+
+  private async clickConsult(page: Page, label: string, htmlFilename: string): Promise<boolean> {
+    // Buscar y hacer clic en el botón Consultar
+    const consultarButton = await page.$(BANESCO_SELECTORS.CONSULT_BUTTON);
+    if (!consultarButton) {
+      console.log('⚠️  No se encontró el botón "Consultar"');
       return false;
     }
+
+    console.log(`🔍 Haciendo clic en "Consultar" con ${label}...`);
+    await consultarButton.click();
+    
+    console.log('⏳ Esperando carga de movimientos...');
+    await page.waitForLoadState('networkidle');
+    await page.waitForTimeout(3000);
+    
+    // Guardar HTML después de consultar
+    await this.htmlSaver.saveHTML(page, htmlFilename);
+    return true;
   }
 
   private async checkForTransactions(page: Page): Promise<boolean> {
@@ -611,4 +723,12 @@ export class AccountsScraper {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Número de cuenta (completo o enmascarado) dentro del texto de una opción del dropdown
+ */
+function extractAccountNumber(text: string): string | null {
+  const match = text.match(/\d[\d*Xx\- ]{6,}\d/);
+  return match ? match[0].replace(/\s+/g, '') : null;
+}
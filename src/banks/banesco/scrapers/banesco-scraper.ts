@@ -8,6 +8,10 @@
 import { Browser, Page } from 'playwright';
 import { BanescoAuth } from '../auth/banesco-auth';
 import { BanescoTransactionsScraper } from './transactions';
+import { TransactionStore } from '../../../shared/utils/transaction-store';
+import type { SyncResult } from '../../../shared/utils/transaction-store';
+import { resolveCategoryRules } from '../../../shared/utils/categorizer';
+import type { SessionKeepAlive } from '../../../shared/utils/session-keep-alive';
 import type { 
   BanescoCredentials, 
   BanescoAuthConfig, 
@@ -24,6 +28,10 @@ export interface BanescoScrapingSession {
   page?: Page;
 }
 
+export interface BanescoSyncSession extends BanescoScrapingSession {
+  sync: SyncResult<BanescTransaction>[];  // New/changed transactions per account
+}
+
 export interface BanescoFullScrapingConfig extends BanescoAuthConfig, BanescoScrapingConfig {
   authenticateFirst?: boolean;  // Default: true
   closeAfterScraping?: boolean; // Default: true
@@ -35,13 +43,16 @@ export class BanescoScraper {
   private auth?: BanescoAuth;
   private browser?: Browser;
   private page?: Page;
+  private keepAlive: SessionKeepAlive | null = null;
 
   constructor(credentials: BanescoCredentials, config: BanescoFullScrapingConfig = {}) {
     this.credentials = credentials;
     this.config = {
       authenticateFirst: true,
       closeAfterScraping: true,
-      ...config
+      ...config,
+      // Read and validate category rules now, so bad rules fail before logging in
+      categoryRules: config.categoryRules && resolveCategoryRules(config.categoryRules)
     };
   }
 
@@ -67,18 +78,22 @@ export class BanescoScraper {
         }
         
         console.log('✅ Authentication successful');
+
+        // Ping Banesco before its idle timeout; accounts stop being scraped once the session ends
+        this.keepAlive = this.auth?.startKeepAlive() || null;
       }
 
-      // Step 2: Transaction scraping
+      // Step 2: Transaction scraping (one result per account)
       if (this.page && session.authResult.success) {
         console.log('📊 Starting transaction scraping...');
         
-        const transactionScraper = new BanescoTransactionsScraper(this.page, this.config);
-        const transactionResult = await transactionScraper.scrapeTransactions();
+        const transactionScraper = new BanescoTransactionsScraper(this.page, this.config).setKeepAlive(this.keepAlive);
+        session.transactionResults = await transactionScraper.scrapeAllAccounts();
         
-        session.transactionResults.push(transactionResult);
-        
-        console.log(`✅ Transaction scraping completed: ${transactionResult.data?.length || 0} transactions`);
+        const totalTransactions = session.transactionResults.reduce((total, result) => total + (result.data?.length || 0), 0);
+        const failedAccounts = session.transactionResults.filter(result => !result.success).length;
+        console.log(`✅ Transaction scraping completed: ${totalTransactions} transactions from ${session.transactionResults.length} accounts` +
+          (failedAccounts > 0 ? ` (${failedAccounts} failed)` : ''));
       }
 
       // Store browser and page references
@@ -112,6 +127,26 @@ export class BanescoScraper {
     }
   }
 
+  /**
+   * Scrape and store the results, returning only new or changed transactions.
+   * Banesco has no date query, so each run reads the bank's current period
+   * and the overlap with earlier runs is deduplicated by the store.
+   */
+  async sync(store: TransactionStore = new TransactionStore()): Promise<BanescoSyncSession> {
+    const session = await this.scrapeAll();
+
+    const transactions = session.transactionResults
+      .filter(result => result.success)
+      .flatMap(result => result.data || []);
+    const sync = store.sync('Banesco', transactions);
+
+    const added = sync.reduce((total, result) => total + result.added.length, 0);
+    const changed = sync.reduce((total, result) => total + result.changed.length, 0);
+    console.log(`💾 Sync stored: ${added} new, ${changed} changed transactions in ${sync.length} accounts`);
+
+    return { ...session, sync };
+  }
+
   /**
    * Authenticate with Banesco
    */
@@ -146,10 +181,23 @@ export class BanescoScraper {
       throw new Error('No authenticated page available. Call authenticate() first.');
     }
 
-    const scraper = new BanescoTransactionsScraper(this.page, this.config);
+    const scraper = new BanescoTransactionsScraper(this.page, this.config).setKeepAlive(this.keepAlive);
     return await scraper.scrapeTransactions();
   }
 
+  /**
+   * Scrape transactions of every account in the movements dropdown, one result
+   * per account (requires existing authentication)
+   */
+  async scrapeAllAccountTransactions(): Promise<BanescoScrapingResult[]> {
+    if (!this.page) {
+      throw new Error('No authenticated page available. Call authenticate() first.');
+    }
+
+    const scraper = new BanescoTransactionsScraper(this.page, this.config).setKeepAlive(this.keepAlive);
+    return await scraper.scrapeAllAccounts();
+  }
+
   /**
    * Get current authenticated page
    */
@@ -221,6 +269,7 @@ export class BanescoScraper {
       this.page = undefined;
       this.browser = undefined;
       this.auth = undefined;
+      this.keepAlive = null;
       
     } catch (error) {
       console.warn(`⚠️  Error during cleanup: ${error}`);
@@ -423,6 +423,7 @@ export class TransactionsScraper {
           amount: this.parseAmountString(montoStr),
           type: this.determineTransactionType(dcStr),
           balance: this.parseAmountString(saldoStr),
+          currency: 'VES',
           reference: referencia || `REF_${Date.now()}_${rowIndex + 1}`
         };
 
@@ -6,8 +6,22 @@
  */
 
 import { Page } from 'playwright';
-import type { BanescTransaction, BanescoScrapingConfig, BanescoScrapingResult } from '../types';
+import type {
+  BanescTransaction,
+  BanescoScrapingConfig,
+  BanescoScrapingResult,
+  BanescoPeriodSelection,
+  BanescoAccountOption
+} from '../types';
+import { BANESCO_PERIODS, BANESCO_CONFIG } from '../types';
+import { AccountsScraper } from './accounts';
 import { BaseBankScraper } from '../../../shared';
+import { withTransactionCents } from '../../../shared/utils/money';
+import type { BalanceCheck } from '../../../shared/utils/balance-validator';
+import { SessionExpiredError } from '../../../shared/utils/session-keep-alive';
+import { assignTransactionIds } from '../../../shared/utils/transaction-identity';
+import { withDescriptionDetails } from '../../../shared/utils/description-parser';
+import { todayInTimezone } from '../../../shared/utils/date-parser';
 
 export class BanescoTransactionsScraper extends BaseBankScraper<
   BanescTransaction,
@@ -29,6 +43,7 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
       retries: 3,
       saveHtml: false,
       extractAccountSummary: true,  // Banesco-specific default
+      maxAccounts: 10,              // Banesco-specific default
       ...config
     } as Required<BanescoScrapingConfig>;
   }
@@ -40,6 +55,20 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
     return this.page.url(); // Banesco uses the current authenticated page
   }
 
+  /**
+   * Banesco dates are shown in Caracas time
+   */
+  protected getTimezone(): string {
+    return BANESCO_CONFIG.timezone || super.getTimezone();
+  }
+
+  /**
+   * Banesco amounts are shown in the bank's locale
+   */
+  protected getLocale(): string {
+    return BANESCO_CONFIG.locale || super.getLocale();
+  }
+
   /**
    * Get Banesco-specific selectors (basic table selectors)
    */
@@ -55,7 +84,366 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
    */
   async scrapeTransactions(): Promise<BanescoScrapingResult> {
     this.log('🚀 Starting Banesco transactions scraping...');
-    
+
+    if (this.isReplayMode()) {
+      return this.mergeReplayResults(await this.scrapeReplayFixtures());
+    }
+
+    try {
+      const selection = this.getPeriodSelection();
+      if (selection) {
+        return this.completeResult(await this.scrapeSelectedPeriod(selection));
+      }
+    } catch (error: any) {
+      this.log(`💥 Invalid period selection: ${error.message}`);
+
+      return {
+        success: false,
+        message: `Scraping failed: ${error.message}`,
+        data: [],
+        timestamp: new Date(),
+        error: error.message,
+        bankName: 'Banesco'
+      };
+    }
+
+    return this.completeResult(await this.scrapeCurrentPage());
+  }
+
+  /**
+   * Check balance continuity against the account summary, then categorize
+   */
+  private completeResult(result: BanescoScrapingResult): BanescoScrapingResult {
+    return this.categorizeResult(this.verifyBalances(result, result.accountSummary));
+  }
+
+  /**
+   * Scrape every account of the movements page dropdown, returning one result per account.
+   * A failing account gets its own failed result and does not stop the others.
+   */
+  async scrapeAllAccounts(): Promise<BanescoScrapingResult[]> {
+    this.log('🚀 Starting Banesco multi-account transactions scraping...');
+
+    if (this.isReplayMode()) {
+      return await this.scrapeReplayFixtures();
+    }
+
+    let selection: BanescoPeriodSelection | null;
+    try {
+      selection = this.getPeriodSelection();
+    } catch (error: any) {
+      this.log(`💥 Invalid period selection: ${error.message}`);
+
+      return [{
+        success: false,
+        message: `Scraping failed: ${error.message}`,
+        data: [],
+        timestamp: new Date(),
+        error: error.message,
+        bankName: 'Banesco'
+      }];
+    }
+
+    const accountsScraper = new AccountsScraper();
+    const accounts = await accountsScraper.getAccountOptions(this.page);
+
+    if (accounts.length === 0) {
+      this.log('⚠️  No accounts found in the account dropdown, scraping the current account only');
+      return [await this.scrapeTransactions()];
+    }
+
+    if (accounts.length > this.config.maxAccounts) {
+      this.log(`ℹ️  ${accounts.length} accounts found, scraping the first ${this.config.maxAccounts} (maxAccounts)`);
+    }
+
+    const results: BanescoScrapingResult[] = [];
+    let sessionError: SessionExpiredError | null = null;
+
+    for (const account of accounts.slice(0, this.config.maxAccounts)) {
+      // Once the session is dead, the remaining accounts fail without touching the page
+      if (!sessionError) {
+        try {
+          this.assertSessionActive();
+        } catch (error) {
+          if (!(error instanceof SessionExpiredError)) throw error;
+          sessionError = error;
+          this.log(`⌛ ${error.message}, not scraping the remaining accounts`);
+        }
+      }
+
+      if (sessionError) {
+        results.push(this.failedAccountResult(account, sessionError.message, selection));
+        continue;
+      }
+
+      this.log(`🏦 Scraping account: ${account.name}`);
+
+      try {
+        const result = await this.scrapeAccount(accountsScraper, account, selection);
+        this.log(`✅ ${account.name}: ${result.data?.length || 0} transactions`);
+        results.push(this.completeResult(result));
+
+      } catch (error: any) {
+        this.log(`❌ Error scraping account ${account.name}: ${error.message}`);
+        await this.saveHtmlForDebug(`transactions-error-${account.value}`);
+
+        results.push(this.failedAccountResult(account, error.message, selection));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Result of an account that could not be scraped
+   */
+  private failedAccountResult(
+    account: BanescoAccountOption,
+    error: string,
+    selection: BanescoPeriodSelection | null
+  ): BanescoScrapingResult {
+    return {
+      success: false,
+      message: `Scraping failed for account ${account.name}: ${error}`,
+      data: [],
+      timestamp: new Date(),
+      error,
+      bankName: 'Banesco',
+      metadata: {
+        account,
+        ...(selection ? { requestedPeriod: selection } : {})
+      }
+    };
+  }
+
+  /**
+   * Select one account in the dropdown, consult its period and tag the extracted transactions
+   */
+  private async scrapeAccount(
+    accountsScraper: AccountsScraper,
+    account: BanescoAccountOption,
+    selection: BanescoPeriodSelection | null
+  ): Promise<BanescoScrapingResult> {
+    const consulted = await accountsScraper.navigateToAccountDetails(this.page, account.value, selection || undefined);
+
+    // Not reaching the movements page is a failed account, not an empty one
+    const navigationError = accountsScraper.getNavigationError();
+    if (navigationError) {
+      throw new Error(navigationError);
+    }
+
+    if (accountsScraper.getSelectedAccount() !== account.value) {
+      throw new Error(`Could not select account ${account.name} in the account dropdown`);
+    }
+
+    if (!consulted && selection) {
+      throw new Error('Could not consult the requested period on the movements page');
+    }
+
+    const period = accountsScraper.getAppliedPeriod();
+    const result: BanescoScrapingResult = consulted
+      ? await this.scrapeAccountPage(account)
+      : {
+          success: true,
+          message: 'No hay movimientos en ningún período',
+          data: [],
+          timestamp: new Date(),
+          bankName: 'Banesco'
+        };
+
+    return {
+      ...result,
+      data: assignTransactionIds((result.data || []).map(transaction => ({
+        ...transaction,
+        accountName: account.name,
+        accountNumber: account.accountNumber
+      }))),
+      metadata: {
+        ...result.metadata,
+        account,
+        ...(period ? { period } : {})
+      }
+    };
+  }
+
+  /**
+   * Extract the consulted page; rows without a currency marker take the account's currency
+   */
+  private async scrapeAccountPage(account: BanescoAccountOption): Promise<BanescoScrapingResult> {
+    this.accountCurrency = account.currency;
+    try {
+      return await this.scrapeCurrentPage();
+    } finally {
+      this.accountCurrency = null;
+    }
+  }
+
+  /**
+   * Explicit period or custom range from the config, or null to scrape the current page
+   */
+  private getPeriodSelection(): BanescoPeriodSelection | null {
+    const { period, from, to } = this.config;
+
+    if (period && (from || to)) {
+      throw new Error('Use either `period` or `from`/`to`, not both');
+    }
+
+    if (period) {
+      if (!BANESCO_PERIODS.some(option => option.value === period)) {
+        throw new Error(`Unknown Banesco period: ${period}`);
+      }
+      return { period };
+    }
+
+    if (!from) {
+      if (to) {
+        throw new Error('Banesco custom ranges require `from` when `to` is set');
+      }
+      return null;
+    }
+
+    const range = { from, to: to || todayInTimezone(this.getTimezone()) };
+    const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (!isoDate.test(range.from) || !isoDate.test(range.to) || range.from > range.to) {
+      throw new Error(`Invalid Banesco date range: ${range.from} → ${range.to} (expected YYYY-MM-DD, from <= to)`);
+    }
+
+    return range;
+  }
+
+  /**
+   * Consult the requested period on the movements page and echo it in the result metadata
+   */
+  private async scrapeSelectedPeriod(selection: BanescoPeriodSelection): Promise<BanescoScrapingResult> {
+    const accountsScraper = new AccountsScraper();
+    const consulted = await accountsScraper.navigateToAccountDetails(this.page, undefined, selection);
+    const period = accountsScraper.getAppliedPeriod();
+
+    if (!consulted || !period) {
+      const message = 'Could not consult the requested period on the movements page';
+      this.log(`❌ ${message}`);
+
+      return {
+        success: false,
+        message,
+        data: [],
+        timestamp: new Date(),
+        error: message,
+        bankName: 'Banesco',
+        metadata: {
+          requestedPeriod: selection
+        }
+      };
+    }
+
+    this.log(`📅 Period consulted: ${period.label}`);
+    const result = await this.scrapeCurrentPage();
+
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        period
+      }
+    };
+  }
+
+  /**
+   * Replay saved movement pages, one result per fixture, each checked against its own account summary
+   */
+  private async scrapeReplayFixtures(): Promise<BanescoScrapingResult[]> {
+    const results: BanescoScrapingResult[] = [];
+
+    try {
+      const fixtures = await this.startReplay();
+
+      for (const fixture of fixtures) {
+        await this.loadFixture(fixture);
+        const result = await this.scrapeCurrentPage();
+
+        const fixtureTransactions = assignTransactionIds((result.data || []).map(transaction => ({
+          ...transaction,
+          accountName: transaction.accountName || fixture.label,
+          ...(fixture.accountNumber ? { accountNumber: fixture.accountNumber } : {})
+        })));
+
+        results.push(this.completeResult({
+          ...result,
+          data: fixtureTransactions,
+          metadata: {
+            ...result.metadata,
+            replay: true,
+            fixture: fixture.file
+          }
+        }));
+      }
+
+      return results;
+
+    } catch (error: any) {
+      this.log(`💥 Error replaying fixtures: ${error.message}`);
+
+      return [...results, {
+        success: false,
+        message: `Replay failed: ${error.message}`,
+        data: [],
+        timestamp: new Date(),
+        error: error.message,
+        bankName: 'Banesco',
+        metadata: { replay: true }
+      }];
+    } finally {
+      await this.stopReplay();
+    }
+  }
+
+  /**
+   * Merge replayed fixtures into one result. Summaries stay with their fixture
+   * (`metadata.fixtures`) and the balance check combines the per-fixture checks.
+   */
+  private mergeReplayResults(results: BanescoScrapingResult[]): BanescoScrapingResult {
+    const transactions = results.flatMap(result => result.data || []);
+    const failed = results.filter(result => !result.success);
+    const checks: BalanceCheck[] = results
+      .map(result => result.metadata?.balanceCheck)
+      .filter((check): check is BalanceCheck => Boolean(check));
+
+    return this.categorizeResult<BanescoScrapingResult>({
+      success: failed.length === 0,
+      message: `Replayed ${results.length} fixtures: ${transactions.length} transactions`,
+      data: transactions,
+      timestamp: new Date(),
+      error: failed.length > 0
+        ? failed.map(result => `${result.metadata?.fixture || 'replay'}: ${result.error}`).join('; ')
+        : undefined,
+      bankName: 'Banesco',
+      metadata: {
+        replay: true,
+        fixtures: results.map(result => ({
+          file: result.metadata?.fixture,
+          success: result.success,
+          count: result.data?.length || 0,
+          error: result.error,
+          accountSummary: result.accountSummary
+        })),
+        balanceCheck: checks.length > 0
+          ? {
+              valid: checks.every(check => check.valid),
+              accounts: checks.flatMap(check => check.accounts),
+              issues: checks.flatMap(check => check.issues)
+            }
+          : undefined
+      }
+    });
+  }
+
+  /**
+   * Extract transactions from the page currently loaded
+   */
+  private async scrapeCurrentPage(): Promise<BanescoScrapingResult> {
+    this.rejectedRows = [];
+
     try {
       // Save HTML for debugging if enabled
       await this.saveHtmlForDebug('transactions-scraping-start');
@@ -97,7 +485,7 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
 
       // Extract transactions from tables
       this.log('🔍 STEP 2: Extracting transaction data');
-      const transactions = await this.extractTransactionsFromTables(tableAnalysis);
+      const transactions = assignTransactionIds(await this.extractTransactionsFromTables(tableAnalysis));
 
       // Extract account summary if enabled
       let accountSummary = undefined;
@@ -125,7 +513,8 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
         metadata: {
           tablesFound: tableAnalysis.tables.length,
           pageTitle,
-          currentUrl
+          currentUrl,
+          rejectedRows: this.rejectedRows.length > 0 ? this.rejectedRows : undefined
         }
       };
 
@@ -285,28 +674,31 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
         const dateString = this.findDateInRow(row);
         const amountString = this.findAmountInRow(row);
         const description = this.findDescriptionInRow(row);
+        const balanceString = this.findBalanceInRow(row);
         const dcValue = this.findDCValue(row);
 
         if (!dateString || !amountString) continue; // Skip rows without essential data
 
-        const date = this.parseDate(dateString);
-        const amount = this.parseAmount(amountString);
-        const transactionType = this.determineTransactionType(dcValue);
+        const { date, timestamp } = this.parseDateTime(dateString);
+        const amount = this.parseAmountDetails(amountString);
+        const balance = balanceString ? this.parseAmountDetails(balanceString) : null;
+        const transactionType = this.determineTransactionType(dcValue, amount.value);
 
         const transaction: BanescTransaction = {
-          id: `banesco-${date}-${Math.random().toString(36).substr(2, 9)}`,
           date,
+          timestamp,
           description: description || 'Transacción',
-          amount: Math.abs(amount),
+          amount: Math.abs(amount.value),
           type: transactionType,
-          balance: 0, // Will be updated if available
+          balance: balance ? balance.value : 0, // 0 when there is no balance column
+          currency: this.resolveCurrency(amount.currency, balance?.currency),
           bankName: 'Banesco'
         };
 
-        transactions.push(transaction);
+        transactions.push(withTransactionCents(withDescriptionDetails(transaction), amount.cents, balance?.cents));
 
       } catch (error) {
-        this.log(`⚠️  Failed to parse transaction row: ${error}`);
+        this.rejectRow(row, error);
         continue;
       }
     }
@@ -319,7 +711,7 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
    */
   private findDateInRow(row: string[]): string | null {
     for (const cell of row) {
-      if (/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/.test(cell)) {
+      if (/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}|^\s*\d{1,2}[\s\/\-]+(de\s+)?[a-zA-Z]{3,}\.?[\s\/\-]+(de\s+)?\d{2,4}/.test(cell)) {
         return cell;
       }
     }
@@ -338,6 +730,14 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
     return null;
   }
 
+  /**
+   * Find the running balance: the last amount cell, when the row has more than one
+   */
+  private findBalanceInRow(row: string[]): string | null {
+    const amountCells = row.filter(cell => this.findAmountInRow([cell]));
+    return amountCells.length > 1 ? amountCells[amountCells.length - 1] : null;
+  }
+
   /**
    * Find description in row (usually the longest text cell)
    */
@@ -364,14 +764,17 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
   }
 
   /**
-   * Determine transaction type from D/C value
+   * Determine transaction type from D/C value, or from the amount sign when there is no D/C column
    */
-  private determineTransactionType(dcValue: string): 'debit' | 'credit' {
-    return dcValue === 'D' ? 'debit' : 'credit';
+  private determineTransactionType(dcValue: string, amount: number): 'debit' | 'credit' {
+    if (dcValue) {
+      return dcValue === 'D' ? 'debit' : 'credit';
+    }
+    return amount < 0 ? 'debit' : 'credit';
   }
 
   /**
-   * Extract account summary information
+   * Extract account summary information (previous and current balance of the period)
    */
   private async extractAccountSummary(): Promise<{
     currentBalance: number | null;
@@ -382,8 +785,8 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
     try {
       const summary = await this.page.$$eval('*', elements => {
         const results = {
-          currentBalance: null as number | null,
-          previousBalance: null as number | null,
+          currentBalance: null as string | null,
+          previousBalance: null as string | null,
           accountNumber: null as string | null,
           accountType: null as string | null
         };
@@ -391,12 +794,15 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
         elements.forEach(element => {
           const text = element.textContent?.trim() || '';
           
-          // Look for balance patterns
-          if (/saldo.*actual|balance.*current/i.test(text)) {
-            const match = text.match(/[\d\.,]+/);
-            if (match) {
-              results.currentBalance = parseFloat(match[0].replace(/[,\.]/g, ''));
-            }
+          // Look for balance patterns (the amount after the label, skipping an "al 31/01/2024" date)
+          const current = text.match(/(?:saldo\s+actual|current\s+balance)[^\d-]*(?:\d{1,2}\/\d{1,2}\/\d{2,4}[^\d-]*)?(-?\d[\d\.,]*)/i);
+          if (current) {
+            results.currentBalance = current[1];
+          }
+
+          const previous = text.match(/(?:saldo\s+(?:anterior|inicial)|previous\s+balance)[^\d-]*(?:\d{1,2}\/\d{1,2}\/\d{2,4}[^\d-]*)?(-?\d[\d\.,]*)/i);
+          if (previous) {
+            results.previousBalance = previous[1];
           }
           
           // Look for account number patterns
@@ -411,7 +817,11 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
         return results;
       });
 
-      return summary;
+      return {
+        ...summary,
+        currentBalance: this.parseSummaryAmount(summary.currentBalance),
+        previousBalance: this.parseSummaryAmount(summary.previousBalance)
+      };
       
     } catch (error) {
       this.log(`⚠️  Error extracting account summary: ${error}`);
@@ -424,6 +834,21 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
     }
   }
 
+  /**
+   * Parse a summary balance, null when it is missing or unreadable
+   */
+  private parseSummaryAmount(amountString: string | null): number | null {
+    if (!amountString) {
+      return null;
+    }
+
+    try {
+      return this.parseAmount(amountString);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Alternative data extraction method
    */
@@ -454,7 +879,7 @@ export class BanescoTransactionsScraper extends BaseBankScraper<
       });
 
       if (possibleTransactions.length > 0) {
-        const transactions = this.parseTransactionData(possibleTransactions);
+        const transactions = assignTransactionIds(this.parseTransactionData(possibleTransactions));
         
         return {
           success: true,
@@ -38,6 +38,32 @@ export interface BanescoAuthConfig extends BaseBankAuthConfig {
 // Banesco scraping configuration - extends base
 export interface BanescoScrapingConfig extends BaseBankScrapingConfig {
   extractAccountSummary?: boolean;  // Banesco-specific: extract balance info
+  period?: BanescoPeriod;           // Banesco-specific: explicit movements period
+  from?: string;                    // Banesco-specific: custom range start (YYYY-MM-DD)
+  to?: string;                      // Banesco-specific: custom range end (YYYY-MM-DD), defaults to today
+  maxAccounts?: number;             // Banesco-specific: limit accounts scraped from the account dropdown
+}
+
+// Periods offered by the movements page period dropdown
+export type BanescoPeriod =
+  | 'PeriodoDiaAnterior'
+  | 'PeriodoSemanaAnterior'
+  | 'PeriodoMesAnterior'
+  | 'PeriodoTrimestre'
+  | 'PeriodoSemestre';
+
+// Explicit period or custom date range for the movements query
+export type BanescoPeriodSelection =
+  | { period: BanescoPeriod }
+  | { from: string; to: string };
+
+// Period actually consulted, echoed in BanescoScrapingResult.metadata.period
+export interface BanescoAppliedPeriod {
+  period?: BanescoPeriod;  // Undefined for custom ranges
+  label: string;
+  from?: string;           // YYYY-MM-DD, custom ranges only
+  to?: string;
+  automatic: boolean;      // True when picked by the first-period-with-rows fallback
 }
 
 // Banesco-specific extensions
@@ -48,6 +74,15 @@ export interface BanescAccount extends BankAccount {
 export interface BanescTransaction extends BankTransaction {
   bankName?: 'Banesco';
   accountName?: string;    // Account name for multi-account support
+  accountNumber?: string;  // Account number (as masked by the bank) from the account dropdown
+}
+
+// Option of the movements page account dropdown (ddlCuenta)
+export interface BanescoAccountOption {
+  value: string;           // Option value submitted by the dropdown
+  name: string;            // Option label
+  accountNumber: string;   // Number found in the label, or the value
+  currency: string;        // Detected from the label, 'VES' by default
 }
 
 export interface BanescSecurityQuestion {
@@ -57,20 +92,67 @@ export interface BanescSecurityQuestion {
 }
 
 // Banesco URLs and constants
-export const BANESCO_URLS = {
-  LOGIN: 'https://www.banesconline.com/mantis/Website/Login.aspx',
-  IFRAME_SELECTOR: 'iframe#ctl00_cp_frmAplicacion'
+export const BANESCO_DEFAULT_BASE_URL = 'https://www.banesconline.com';
+
+export function buildBanescoUrls(baseUrl: string) {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  return {
+    BASE: base,
+    LOGIN: `${base}/mantis/Website/Login.aspx`,
+    HOME: `${base}/Mantis/WebSite/index.aspx`,
+    MOVEMENTS: `${base}/Mantis/WebSite/consultamovimientoscuenta/movimientoscuenta.aspx`,
+    IFRAME_SELECTOR: 'iframe#ctl00_cp_frmAplicacion'
+  };
+}
+
+export const BANESCO_URLS = buildBanescoUrls(BANESCO_DEFAULT_BASE_URL);
+
+/**
+ * Point BANESCO_URLS and BANESCO_CONFIG at another host (e.g. the local mock server).
+ * Call without arguments to restore the real Banesco site.
+ */
+export function overrideBanescoUrls(baseUrl: string = BANESCO_DEFAULT_BASE_URL): void {
+  Object.assign(BANESCO_URLS, buildBanescoUrls(baseUrl));
+  BANESCO_CONFIG.baseUrl = BANESCO_URLS.BASE;
+  BANESCO_CONFIG.loginUrl = BANESCO_URLS.LOGIN;
+  BANESCO_CONFIG.session!.keepAliveUrl = BANESCO_URLS.HOME;
+}
+
+// Movements page periods, in the order the automatic fallback tries them
+export const BANESCO_PERIODS: Array<{ value: BanescoPeriod; name: string }> = [
+  { value: 'PeriodoDiaAnterior', name: 'Día Anterior' },
+  { value: 'PeriodoSemanaAnterior', name: 'Semana Anterior' },
+  { value: 'PeriodoMesAnterior', name: 'Mes Anterior' },
+  { value: 'PeriodoTrimestre', name: 'Trimestre Anterior' },
+  { value: 'PeriodoSemestre', name: 'Semestre Anterior' }
+];
+
+export const BANESCO_SELECTORS = {
+  // Movements page
+  ACCOUNT_DROPDOWN: 'select[id*="ddlCuenta"], select[name*="ddlCuenta"]',
+  PERIOD_DROPDOWN: '#ctl00_cp_ddlPeriodo',
+  PERIOD_RADIO: '#ctl00_cp_rbPeriodo',
+  RANGE_RADIO: '#ctl00_cp_rbRango',
+  DATE_FROM: '#ctl00_cp_dtFechaDesde',
+  DATE_TO: '#ctl00_cp_dtFechaHasta',
+  CONSULT_BUTTON: 'input[value="Consultar"]'
 };
 
 // Banesco configuration
 export const BANESCO_CONFIG: BankConfig = {
   name: 'Banesco',
   code: 'banesco',
-  baseUrl: 'https://www.banesconline.com',
-  loginUrl: 'https://www.banesconline.com/mantis/Website/Login.aspx',
+  baseUrl: BANESCO_URLS.BASE,
+  loginUrl: BANESCO_URLS.LOGIN,
   supportedFeatures: ['accounts', 'transactions', 'security-questions'],
   locale: 'es-VE',
-  timezone: 'America/Caracas'
+  timezone: 'America/Caracas',
+  session: {
+    idleTimeoutMinutes: 5,
+    maxLifetimeMinutes: 30,
+    keepAliveUrl: BANESCO_URLS.HOME
+  }
 };
 
 export interface SecurityQuestionMap {
@@ -0,0 +1,109 @@
+/**
+ * BNC Bank Adapter
+ *
+ * Exposes BncScraper through the shared `BankScraper` interface so BNC can be
+ * created from the bank registry with generic credentials.
+ *
+ * Credential mapping:
+ * - `username`               → Cédula de identidad (`id`)
+ * - `password`               → Contraseña
+ * - `additionalFields.card`  → Número de tarjeta
+ */
+
+import { BncScraper } from './scrapers/bnc-scraper';
+import { BNC_CONFIG } from './types';
+import type { BncCredentials } from './types';
+import type {
+  BankAccount,
+  BankCredentials,
+  BankScraper,
+  BankTransaction,
+  LoginResult,
+  ScrapingResult
+} from '../../shared/types';
+import type { BankAdapter, BankClientOptions } from '../../shared/bank-registry';
+
+export class BncBankClient implements BankScraper {
+  private scraper: BncScraper;
+
+  constructor(credentials: BncCredentials, options: BankClientOptions = {}) {
+    this.scraper = new BncScraper(credentials, {
+      ...options,
+      closeAfterScraping: false
+    });
+  }
+
+  async login(): Promise<LoginResult> {
+    const result = await this.scraper.authenticate();
+
+    return {
+      success: result.success,
+      message: result.message,
+      sessionValid: result.sessionValid
+    };
+  }
+
+  async scrapeAccounts(): Promise<ScrapingResult<BankAccount>> {
+    const authError = await this.ensureAuthenticated();
+    if (authError) {
+      return authError;
+    }
+
+    return await this.scraper.scrapeAccounts();
+  }
+
+  async scrapeTransactions(): Promise<ScrapingResult<BankTransaction>> {
+    const authError = await this.ensureAuthenticated();
+    if (authError) {
+      return authError;
+    }
+
+    return await this.scraper.scrapeTransactions();
+  }
+
+  async close(): Promise<void> {
+    await this.scraper.close();
+  }
+
+  /**
+   * Login on demand, returning a failure result if authentication fails
+   */
+  private async ensureAuthenticated(): Promise<ScrapingResult<never> | null> {
+    if (this.scraper.isAuthenticated() && this.scraper.getPage()) {
+      return null;
+    }
+
+    const loginResult = await this.login();
+    if (!loginResult.success || !this.scraper.getPage()) {
+      return {
+        success: false,
+        error: `Authentication failed: ${loginResult.message}`,
+        timestamp: new Date()
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Map generic bank credentials to BNC credentials
+ */
+export function toBncCredentials(credentials: BankCredentials): BncCredentials {
+  const card = credentials.additionalFields?.card;
+
+  if (!card) {
+    throw new Error('BNC requires additionalFields.card (card number)');
+  }
+
+  return {
+    id: credentials.username,
+    card,
+    password: credentials.password
+  };
+}
+
+export const bncAdapter: BankAdapter = {
+  config: BNC_CONFIG,
+  createClient: (credentials, options) => new BncBankClient(toBncCredentials(credentials), options)
+};
@@ -7,8 +7,9 @@
  */
 
 import type { BncCredentials, BncLoginResult, BncAuthConfig } from '../types';
-import { BNC_URLS, BNC_SELECTORS } from '../types';
+import { BNC_URLS, BNC_SELECTORS, BNC_CONFIG } from '../types';
 import { BaseBankAuth } from '../../../shared/base-bank-auth';
+import type { BankConfig } from '../../../shared/types';
 
 export class BncAuth extends BaseBankAuth<BncCredentials, BncAuthConfig, BncLoginResult> {
   constructor(credentials: BncCredentials, config: BncAuthConfig = {}) {
@@ -43,6 +44,13 @@ export class BncAuth extends BaseBankAuth<BncCredentials, BncAuthConfig, BncLogi
     return BNC_URLS.LOGIN;
   }
 
+  /**
+   * BNC config, with the session policy used by the keep-alive
+   */
+  protected getBankConfig(): BankConfig {
+    return BNC_CONFIG;
+  }
+
   /**
    * Perform BNC-specific login with retry logic
    */
@@ -296,6 +304,33 @@ export class BncAuth extends BaseBankAuth<BncCredentials, BncAuthConfig, BncLogi
     }
   }
 
+  /**
+   * A restored session is valid when the Last25 movements page opens without the login form
+   */
+  protected async validateRestoredSession(): Promise<boolean> {
+    if (!this.page) return false;
+
+    try {
+      await this.page.goto(BNC_URLS.TRANSACTIONS, {
+        waitUntil: 'domcontentloaded',
+        timeout: this.config.timeout
+      });
+
+      if (await this.page.$(BNC_SELECTORS.CARD_NUMBER)) {
+        this.log('❌ Restored session redirected to the login form');
+        return false;
+      }
+
+      const loggedIn = await this.page.$(`${BNC_SELECTORS.LOGOUT_BUTTON}, ${BNC_SELECTORS.TRANSACTIONS_TABLE}`);
+      this.log(loggedIn ? '✅ Restored session verified on the movements page' : '❌ Movements page not shown for restored session');
+      return !!loggedIn;
+
+    } catch (error) {
+      this.log(`❌ Error validating restored session: ${error}`);
+      return false;
+    }
+  }
+
   /**
    * Create BNC-specific success result
    */
@@ -5,6 +5,7 @@
  * 
  * Features:
  * - Authentication with card number, ID, and password
+ * - Account and balance scraping from the account filter
  * - Transaction scraping for multiple accounts (VES, USD)
  * - Comprehensive logging and debugging
  * - Session management and error handling
@@ -15,6 +16,11 @@
 export { BncScraper, createBncScraper, quickScrape } from './scrapers/bnc-scraper';
 export { BncAuth } from './auth/bnc-auth';
 export { BncTransactionsScraper } from './scrapers/transactions';
+export { BncAccountsScraper, parseBncAccountOption, toBncAccount } from './scrapers/accounts';
+export type { BncAccountOption } from './scrapers/accounts';
+export { BncBankClient, bncAdapter, toBncCredentials } from './adapter';
+export { BncMockServer, BNC_MOCK_CREDENTIALS, BNC_MOCK_ACCOUNTS } from './mock/bnc-mock-server';
+export type { BncMockOptions, BncMockAccount, BncMockTransaction, BncMockFailure } from './mock/bnc-mock-server';
 
 // Types and interfaces
 export type {
@@ -33,17 +39,20 @@ export type {
 export {
   BncAccountType,
   BNC_URLS,
+  overrideBncUrls,
   BNC_SELECTORS,
   BNC_CONFIG
 } from './types';
 
 // Export scraping result interfaces
 export type {
-  BncScrapingSession
+  BncScrapingSession,
+  BncSyncSession
 } from './scrapers/bnc-scraper';
 
 export type {
-  BncScrapingResult
+  BncScrapingResult,
+  BncAccountsResult
 } from './types';
 
 // Default export for convenience
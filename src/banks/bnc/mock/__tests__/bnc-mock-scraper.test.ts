@@ -0,0 +1,74 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { chromium } from 'playwright';
+import { BncMockServer } from '../bnc-mock-server';
+import { BncScraper } from '../../scrapers/bnc-scraper';
+import { overrideBncUrls } from '../../types';
+
+// scrapeAll() drives a real browser; skipped where Playwright's Chromium is not installed
+const browserMissing = !existsSync(chromium.executablePath()) && 'Chromium not installed (npx playwright install chromium)';
+
+describe('BncScraper.scrapeAll against the mock server', { skip: browserMissing }, () => {
+  let mock: BncMockServer;
+
+  before(async () => {
+    mock = new BncMockServer();
+    overrideBncUrls(await mock.start());
+  });
+  after(async () => {
+    await mock.stop();
+    overrideBncUrls();
+  });
+
+  it('logs in and scrapes the Last25 movements of every account', async () => {
+    mock.setFailure(null);
+    const scraper = new BncScraper(mock.getCredentials(), { headless: true, saveSession: false, waitBetweenActions: 0 });
+
+    const session = await scraper.scrapeAll();
+
+    assert.equal(session.authResult.success, true, session.authResult.message);
+    const [result] = session.transactionResults;
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.metadata?.accountsScraped, ['BNC VES 1109', 'BNC USD 0816']);
+    assert.deepEqual(result.metadata?.accounts.map((account: { accountNumber: string }) => account.accountNumber), [
+      '01910000000000001109',
+      '01910000000000000816',
+      '01910000000000000801'
+    ]);
+
+    const usd = result.data!.filter(transaction => transaction.accountName === 'BNC USD 0816');
+    assert.deepEqual(usd.map(transaction => [transaction.date, transaction.type, transaction.amount, transaction.currency]), [
+      ['2025-05-30', 'credit', 300, 'USD'],
+      ['2025-05-28', 'debit', 50, 'USD']
+    ]);
+    assert.equal(result.data!.length, 5);
+  });
+
+  it('reports wrong credentials as a failed login', async () => {
+    mock.setFailure(null);
+    const scraper = new BncScraper({ ...mock.getCredentials(), password: 'wrong' }, { headless: true, saveSession: false });
+
+    const session = await scraper.scrapeAll();
+
+    assert.equal(session.authResult.success, false);
+    assert.deepEqual(session.transactionResults, []);
+  });
+
+  it('fails the scrape when the transactions page errors after login', async () => {
+    mock.setFailure(null);
+    const scraper = new BncScraper(mock.getCredentials(), { headless: true, saveSession: false, waitBetweenActions: 0 });
+
+    try {
+      assert.equal((await scraper.authenticate()).success, true);
+      mock.setFailure('transactions-error');
+
+      const result = await scraper.scrapeTransactions();
+
+      assert.equal(result.success, false);
+      assert.match(result.error!, /No accounts found in the account filter/);
+    } finally {
+      await scraper.close();
+    }
+  });
+});
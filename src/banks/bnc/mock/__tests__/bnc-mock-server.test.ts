@@ -0,0 +1,134 @@
+import { describe, it, before, after, afterEach, mock as testMock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BncMockServer, BNC_MOCK_CREDENTIALS } from '../bnc-mock-server';
+
+const LAST25 = '/Accounts/Transactions/Last25';
+
+interface MockResponse {
+  status: number;
+  location: string | null;
+  cookie: string | null;
+  body: string;
+}
+
+// Requests without following redirects, so login redirects and cookies can be checked
+async function request(url: string, form?: Record<string, string>, cookie?: string): Promise<MockResponse> {
+  const response = await fetch(url, {
+    method: form ? 'POST' : 'GET',
+    redirect: 'manual',
+    headers: {
+      ...(form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+      ...(cookie ? { Cookie: cookie } : {})
+    },
+    body: form ? new URLSearchParams(form).toString() : undefined
+  });
+
+  return {
+    status: response.status,
+    location: response.headers.get('location'),
+    cookie: response.headers.get('set-cookie')?.split(';')[0] || null,
+    body: await response.text()
+  };
+}
+
+describe('BncMockServer', () => {
+  let mock: BncMockServer;
+  let baseUrl: string;
+
+  async function start(options: ConstructorParameters<typeof BncMockServer>[0] = {}): Promise<void> {
+    mock = new BncMockServer(options);
+    baseUrl = await mock.start();
+  }
+
+  async function login(): Promise<string> {
+    const { card, id, password } = BNC_MOCK_CREDENTIALS;
+    const response = await request(`${baseUrl}/Auth/Login`, { CardNumber: card, UserID: id, UserPassword: password });
+    assert.equal(response.location, LAST25);
+    return response.cookie!;
+  }
+
+  // start() announces every server on stdout, which garbles the test runner's own output
+  before(() => { testMock.method(console, 'log', () => {}); });
+  after(() => { testMock.restoreAll(); });
+  afterEach(async () => { await mock?.stop(); });
+
+  it('logs in with card, user id and password, then serves Last25 with the account filter', async () => {
+    await start();
+    const { card, id, password } = BNC_MOCK_CREDENTIALS;
+
+    const loginPage = await request(`${baseUrl}/`);
+    assert.match(loginPage.body, /id="CardNumber"/);
+    assert.match(loginPage.body, /id="UserID"/);
+
+    const passwordStep = await request(`${baseUrl}/Auth/Identify`, { CardNumber: card, UserID: id });
+    assert.match(passwordStep.body, /id="UserPassword"/);
+    assert.match(passwordStep.body, new RegExp(`name="CardNumber" type="hidden" value="${card}"`));
+
+    const loggedIn = await request(`${baseUrl}/Auth/Login`, { CardNumber: card, UserID: id, UserPassword: password });
+    assert.equal(loggedIn.status, 302);
+    assert.equal(loggedIn.location, LAST25);
+    assert.match(loggedIn.cookie!, /^BncMockSession=\w+$/);
+
+    const last25 = await request(`${baseUrl}${LAST25}`, undefined, loggedIn.cookie!);
+    assert.equal(last25.status, 200);
+    assert.match(last25.body, /<option value="0" selected>BNC VES 1109 - 01910000000000001109 - Saldo: /);
+    assert.match(last25.body, /id="Tbl_Transactions"/);
+    assert.match(last25.body, /PAGO MOVIL RECIBIDO 04141234567/);
+
+    const usd = await request(`${baseUrl}${LAST25}?AccountId=1`, undefined, loggedIn.cookie!);
+    assert.match(usd.body, /<option value="1" selected>BNC USD 0816/);
+    assert.match(usd.body, /RETIRO EN TAQUILLA/);
+  });
+
+  it('rejects wrong credentials at each step', async () => {
+    await start();
+    const { card, id } = BNC_MOCK_CREDENTIALS;
+
+    const wrongId = await request(`${baseUrl}/Auth/Identify`, { CardNumber: card, UserID: 'V00000000' });
+    assert.match(wrongId.body, /Los datos ingresados son incorrectos/);
+
+    const wrongPassword = await request(`${baseUrl}/Auth/Login`, { CardNumber: card, UserID: id, UserPassword: 'nope' });
+    assert.equal(wrongPassword.cookie, null);
+    assert.match(wrongPassword.body, /Contraseña inválida/);
+    assert.match(wrongPassword.body, /id="UserPassword"/);
+  });
+
+  it('serves the maintenance and locked user states', async () => {
+    await start({ failure: 'maintenance' });
+    const maintenance = await request(`${baseUrl}/`);
+    assert.match(maintenance.body, /se encuentra en mantenimiento/);
+    assert.doesNotMatch(maintenance.body, /id="CardNumber"/);
+
+    mock.setFailure('locked-user');
+    const { card, id } = BNC_MOCK_CREDENTIALS;
+    const locked = await request(`${baseUrl}/Auth/Identify`, { CardNumber: card, UserID: id });
+    assert.match(locked.body, /Usuario bloqueado/);
+  });
+
+  it('answers the transactions page with HTTP 500 in the transactions-error state', async () => {
+    await start();
+    const cookie = await login();
+
+    mock.setFailure('transactions-error');
+    const failed = await request(`${baseUrl}${LAST25}`, undefined, cookie);
+    assert.equal(failed.status, 500);
+    assert.match(failed.body, /No fue posible consultar los movimientos/);
+  });
+
+  it('redirects to login without a session, once it expires and after logout', async () => {
+    await start();
+
+    assert.equal((await request(`${baseUrl}${LAST25}`)).location, '/');
+
+    const cookie = await login();
+    mock.setFailure('session-expired');
+    assert.equal((await request(`${baseUrl}${LAST25}`, undefined, cookie)).location, '/');
+    mock.setFailure(null);
+    assert.equal((await request(`${baseUrl}${LAST25}`, undefined, cookie)).status, 200);
+
+    const logout = await request(`${baseUrl}/Auth/Logout`, undefined, cookie);
+    assert.equal(logout.location, '/');
+    assert.match(logout.cookie!, /^BncMockSession=$/);
+    assert.equal((await request(`${baseUrl}${LAST25}`, undefined, cookie)).location, '/');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * BNC Mock Pages
+ *
+ * HTML templates reproducing the parts of BNC en Línea that BncAuth and
+ * BncTransactionsScraper interact with. Element ids and the nesting of the
+ * filter panel mirror BNC_SELECTORS so the real selectors work unchanged.
+ */
+
+import type { BncMockAccount } from './bnc-mock-server';
+
+function layout(title: string, body: string, script: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <title>${title} - BNC en Línea (mock)</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; }
+    .alert-danger { color: #b00020; }
+    .d-none { display: none; }
+    .modal { display: none; position: fixed; top: 20%; left: 30%; background: #fff; border: 1px solid #333; padding: 1rem; }
+    .modal.show { display: block; }
+    .dropdown-menu { display: none; border: 1px solid #ccc; }
+    .dropdown-menu.show { display: block; }
+    tr.no-padding { display: none; }
+    tr.no-padding.show { display: table-row; }
+  </style>
+</head>
+<body>
+${body}
+<script>${script}</script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatAmount(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString('de-DE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+  return amount < 0 ? `-${formatted}` : formatted;
+}
+
+export function accountLabel(account: BncMockAccount): string {
+  return `${account.name} - ${account.number} - Saldo: ${formatAmount(account.balance)} ${account.currency}`;
+}
+
+function errorBlock(error?: string): string {
+  return error ? `<div class="alert alert-danger" role="alert">${escapeHtml(error)}</div>` : '';
+}
+
+function logoutBlock(): string {
+  return `
+  <button id="btn-logout" type="button" onclick="document.getElementById('Mdl-Confirm').classList.add('show')">Cerrar sesión</button>
+  <div id="Mdl-Confirm" class="modal" role="dialog">
+    <p>¿Desea cerrar la sesión?</p>
+    <button id="Mdl-Confirm-Yes" type="button" onclick="window.location.href='/Auth/Logout'">Sí</button>
+    <button id="Mdl-Confirm-No" type="button" onclick="document.getElementById('Mdl-Confirm').classList.remove('show')">No</button>
+  </div>`;
+}
+
+/**
+ * Step 1: card number and user id
+ */
+export function loginPage(error?: string): string {
+  return layout('Inicio de sesión', `
+  <h1>BNC en Línea</h1>
+  ${errorBlock(error)}
+  <form method="post" action="/Auth/Identify">
+    <label for="CardNumber">Número de tarjeta</label>
+    <input id="CardNumber" name="CardNumber" type="text" autocomplete="off">
+    <label for="UserID">Cédula</label>
+    <input id="UserID" name="UserID" type="text" autocomplete="off">
+    <button id="BtnSend" type="submit">Continuar</button>
+  </form>`);
+}
+
+/**
+ * Step 2: password (card and id carried as hidden fields)
+ */
+export function passwordPage(card: string, id: string, error?: string): string {
+  return layout('Contraseña', `
+  <h1>BNC en Línea</h1>
+  ${errorBlock(error)}
+  <form method="post" action="/Auth/Login">
+    <input name="CardNumber" type="hidden" value="${escapeHtml(card)}">
+    <input name="UserID" type="hidden" value="${escapeHtml(id)}">
+    <label for="UserPassword">Contraseña</label>
+    <input id="UserPassword" name="UserPassword" type="password" autocomplete="off">
+    <button id="BtnSend" type="submit">Ingresar</button>
+  </form>`);
+}
+
+export function maintenancePage(): string {
+  return layout('Mantenimiento', `
+  <h1>BNC en Línea</h1>
+  <p class="alert-danger">Estimado cliente, nuestro sistema se encuentra en mantenimiento. Intente más tarde.</p>`);
+}
+
+export function errorPage(message: string): string {
+  return layout('Error', `
+  <h1>Ha ocurrido un error</h1>
+  <p class="alert-danger">${escapeHtml(message)}</p>`);
+}
+
+/**
+ * Last25 transactions page with the account filter panel: the newest 25
+ * movements of the selected account
+ */
+export function transactionsPage(accounts: BncMockAccount[], selectedIndex: number): string {
+  const selected = accounts[selectedIndex];
+  const transactions = selected.transactions.slice(0, 25);
+
+  const options = [
+    '<option value="">Seleccione una cuenta</option>',
+    ...accounts.map((account, index) =>
+      `<option value="${index}"${index === selectedIndex ? ' selected' : ''}>${escapeHtml(accountLabel(account))}</option>`
+    )
+  ].join('\n                ');
+
+  const menuItems = [
+    '<li><a role="option" id="bs-select-1-0" data-value="">Seleccione una cuenta</a></li>',
+    ...accounts.map((account, index) =>
+      `<li><a role="option" id="bs-select-1-${index + 1}" data-value="${index}">${escapeHtml(accountLabel(account))}</a></li>`
+    )
+  ].join('\n                  ');
+
+  const rows = transactions.map(transaction => `
+      <tr class="cursor-pointer">
+        <td>${escapeHtml(transaction.date)}</td>
+        <td>${escapeHtml(transaction.type)}</td>
+        <td>${escapeHtml(transaction.reference)}</td>
+        <td>${formatAmount(transaction.amount)}</td>
+        <td>${escapeHtml(transaction.description)}</td>
+        <td><i class="fa fa-chevron-down" onclick="this.closest('tr').nextElementSibling.classList.toggle('show')">▾</i></td>
+      </tr>
+      <tr class="no-padding">
+        <td colspan="6">
+          <div><div><div>
+            <div class="font-weight-normal pl-md-2 SHD"><div>
+              <div class="SHD font-size-custom pb-1">${escapeHtml(transaction.description)}</div>
+            </div></div>
+          </div></div></div>
+        </td>
+      </tr>`).join('');
+
+  const body = `
+  <h1>Últimos 25 movimientos</h1>
+  ${logoutBlock()}
+  <form id="PnlFilter" method="get" action="/Accounts/Transactions/Last25">
+    <div class="card container-card rounded">
+      <div class="card-body">
+        <div class="row">
+          <div class="col-12 col-md-8 pb-4 pb-md-2">
+            <div class="form-label-floating">
+              <div class="dropdown bootstrap-select">
+                <select id="AccountId" name="AccountId" class="d-none">
+                ${options}
+                </select>
+                <button type="button" class="btn dropdown-toggle" onclick="document.getElementById('AccountMenu').classList.toggle('show')">${escapeHtml(accountLabel(selected))}</button>
+                <div id="AccountMenu" class="dropdown-menu">
+                  <ul class="inner">
+                  ${menuItems}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          </div>
+          <div class="col-12 offset-md-0 col-md-4 pb-md-2">
+            <button type="submit" class="btn btn-primary">Buscar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  </form>
+  <table id="Tbl_Transactions">
+    <thead>
+      <tr><th>Fecha</th><th>Tipo</th><th>Referencia</th><th>Monto</th><th>Descripción</th><th></th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>`;
+
+  const script = `
+  document.querySelectorAll('#AccountMenu a[role="option"]').forEach(function (item) {
+    item.addEventListener('click', function () {
+      document.getElementById('AccountId').value = item.getAttribute('data-value');
+      document.querySelector('.bootstrap-select > button').textContent = item.textContent;
+      document.getElementById('AccountMenu').classList.remove('show');
+    });
+  });`;
+
+  return layout('Movimientos', body, script);
+}
@@ -0,0 +1,254 @@
+/**
+ * BNC Mock Server
+ *
+ * Local Express stand-in for BNC en Línea implementing the 3-step login
+ * (card → user id → password), the Last25 transactions page with its account
+ * filter, the logout confirmation modal and a set of failure states. Combined
+ * with `overrideBncUrls()` it lets `BncScraper.scrapeAll()` run end to end
+ * without touching the real bank.
+ *
+ * @example
+ * const mock = new BncMockServer();
+ * overrideBncUrls(await mock.start());
+ * const session = await new BncScraper(mock.getCredentials(), { headless: true }).scrapeAll();
+ * await mock.stop();
+ * overrideBncUrls();
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import type { BncCredentials } from '../types';
+import {
+  loginPage,
+  passwordPage,
+  maintenancePage,
+  errorPage,
+  transactionsPage
+} from './bnc-mock-pages';
+
+export interface BncMockTransaction {
+  date: string;         // DD/MM/YYYY
+  type: string;
+  reference: string;
+  amount: number;       // Negative for debits
+  description: string;
+}
+
+export interface BncMockAccount {
+  name: string;
+  number: string;
+  currency: 'VES' | 'USD';
+  balance: number;
+  transactions: BncMockTransaction[];  // Newest first; Last25 shows the first 25
+}
+
+export type BncMockFailure =
+  | 'maintenance'          // Login page replaced by a maintenance notice
+  | 'locked-user'          // Step 1 rejects the user as blocked
+  | 'transactions-error'   // Transactions page answers with HTTP 500
+  | 'session-expired';     // Every authenticated page redirects to login
+
+export interface BncMockOptions {
+  port?: number;                 // Default: random free port
+  credentials?: BncCredentials;  // Credentials accepted by the mock
+  accounts?: BncMockAccount[];   // Default: three sample accounts
+  failure?: BncMockFailure;      // Default: none
+}
+
+const SESSION_COOKIE = 'BncMockSession';
+
+export const BNC_MOCK_CREDENTIALS: BncCredentials = {
+  id: 'V12345678',
+  card: '1234567890123456',
+  password: 'mock-password'
+};
+
+export const BNC_MOCK_ACCOUNTS: BncMockAccount[] = [
+  {
+    name: 'BNC VES 1109',
+    number: '01910000000000001109',
+    currency: 'VES',
+    balance: 15234.56,
+    transactions: [
+      { date: '02/06/2025', type: 'Pago Móvil', reference: '000123456', amount: 1500, description: 'PAGO MOVIL RECIBIDO 04141234567' },
+      { date: '01/06/2025', type: 'Compra TDD', reference: '000123455', amount: -245.3, description: 'COMPRA TDD FARMATODO' },
+      { date: '31/05/2025', type: 'Comisión', reference: '000123454', amount: -12.5, description: 'COMISION PAGO MOVIL' }
+    ]
+  },
+  {
+    name: 'BNC USD 0816',
+    number: '01910000000000000816',
+    currency: 'USD',
+    balance: 820.1,
+    transactions: [
+      { date: '30/05/2025', type: 'Transferencia', reference: '000223344', amount: 300, description: 'TRANSFERENCIA RECIBIDA DE TERCEROS' },
+      { date: '28/05/2025', type: 'Retiro', reference: '000223343', amount: -50, description: 'RETIRO EN TAQUILLA' }
+    ]
+  },
+  {
+    name: 'BNC USD 0801',
+    number: '01910000000000000801',
+    currency: 'USD',
+    balance: 0,
+    transactions: []
+  }
+];
+
+export class BncMockServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private sessions = new Set<string>();
+  private credentials: BncCredentials;
+  private accounts: BncMockAccount[];
+  private failure: BncMockFailure | null;
+  private port: number;
+
+  constructor(options: BncMockOptions = {}) {
+    this.credentials = options.credentials || BNC_MOCK_CREDENTIALS;
+    this.accounts = options.accounts || BNC_MOCK_ACCOUNTS;
+    this.failure = options.failure || null;
+    this.port = options.port ?? 0;
+
+    this.app = express();
+    this.app.use(express.urlencoded({ extended: false }));
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // Step 1: card + user id
+    this.app.get('/', (req: Request, res: Response) => {
+      if (this.failure === 'maintenance') {
+        res.send(maintenancePage());
+        return;
+      }
+      res.send(loginPage());
+    });
+
+    this.app.post('/Auth/Identify', (req: Request, res: Response) => {
+      const { CardNumber, UserID } = req.body;
+
+      if (this.failure === 'locked-user') {
+        res.send(loginPage('Usuario bloqueado. Comuníquese con el Centro de Atención Telefónica.'));
+        return;
+      }
+
+      if (CardNumber !== this.credentials.card || UserID !== this.credentials.id) {
+        res.send(loginPage('Los datos ingresados son incorrectos.'));
+        return;
+      }
+
+      res.send(passwordPage(CardNumber, UserID));
+    });
+
+    // Step 2: password
+    this.app.post('/Auth/Login', (req: Request, res: Response) => {
+      const { CardNumber, UserID, UserPassword } = req.body;
+
+      if (CardNumber !== this.credentials.card || UserID !== this.credentials.id) {
+        res.send(loginPage('Los datos ingresados son incorrectos.'));
+        return;
+      }
+
+      if (UserPassword !== this.credentials.password) {
+        res.send(passwordPage(CardNumber, UserID, 'Contraseña inválida.'));
+        return;
+      }
+
+      const token = randomBytes(16).toString('hex');
+      this.sessions.add(token);
+      res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${token}; Path=/; HttpOnly`);
+      res.redirect('/Accounts/Transactions/Last25');
+    });
+
+    this.app.get('/Auth/Logout', (req: Request, res: Response) => {
+      const token = this.getSessionToken(req);
+      if (token) {
+        this.sessions.delete(token);
+      }
+      res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/; Max-Age=0`);
+      res.redirect('/');
+    });
+
+    // Authenticated area
+    this.app.get('/Accounts/Transactions/Last25', this.requireSession, (req: Request, res: Response) => {
+      if (this.failure === 'transactions-error') {
+        res.status(500).send(errorPage('No fue posible consultar los movimientos.'));
+        return;
+      }
+
+      const requested = parseInt(String(req.query.AccountId ?? ''), 10);
+      const selectedIndex = Number.isInteger(requested) && this.accounts[requested] ? requested : 0;
+
+      res.send(transactionsPage(this.accounts, selectedIndex));
+    });
+  }
+
+  private requireSession = (req: Request, res: Response, next: NextFunction): void => {
+    const token = this.getSessionToken(req);
+
+    if (this.failure === 'session-expired' || !token || !this.sessions.has(token)) {
+      res.redirect('/');
+      return;
+    }
+
+    next();
+  };
+
+  private getSessionToken(req: Request): string | null {
+    const cookies = req.headers.cookie || '';
+    const match = cookies.split(';')
+      .map(cookie => cookie.trim())
+      .find(cookie => cookie.startsWith(`${SESSION_COOKIE}=`));
+
+    return match ? match.substring(SESSION_COOKIE.length + 1) || null : null;
+  }
+
+  /**
+   * Start the mock and return its base URL
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      await new Promise<void>((resolve, reject) => {
+        this.server = this.app.listen(this.port, '127.0.0.1', () => resolve());
+        this.server.on('error', reject);
+      });
+      console.log(`🏦 BNC mock server running on ${this.getBaseUrl()}`);
+    }
+
+    return this.getBaseUrl();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+    this.sessions.clear();
+  }
+
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('BNC mock server not started');
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Switch failure state at runtime (null restores normal behaviour)
+   */
+  setFailure(failure: BncMockFailure | null): void {
+    this.failure = failure;
+  }
+
+  getCredentials(): BncCredentials {
+    return { ...this.credentials };
+  }
+
+  getAccounts(): BncMockAccount[] {
+    return this.accounts;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectBncCurrency, parseBncAccountOption, toBncAccount } from '../accounts';
+
+describe('parseBncAccountOption', () => {
+  it('reads name, number, type and balance from the filter label', () => {
+    const option = parseBncAccountOption('Cuenta Corriente - 01910000000000001109 - Saldo: 15.234,56 VES', '0', 1);
+
+    assert.equal(option.error, undefined);
+    assert.equal(option.accountName, 'Cuenta Corriente');
+    assert.equal(option.accountNumber, '01910000000000001109');
+    assert.equal(option.accountType, 'corriente');
+    assert.equal(option.optionIndex, 1);
+    assert.equal(option.balance, 15234.56);
+    assert.equal(option.currency, 'VES');
+  });
+
+  it('takes the currency of dollar accounts from the label', () => {
+    const option = parseBncAccountOption('Cuenta de Ahorro en Divisas - 0191-0000-00-0000000801 - Saldo: 820,10 USD', '2');
+
+    assert.equal(option.accountNumber, '01910000000000000801');
+    assert.equal(option.accountType, 'ahorro');
+    assert.equal(option.balance, 820.1);
+    assert.equal(option.currency, 'USD');
+  });
+
+  it('leaves the balance unset when the label shows none or an unreadable one', () => {
+    const unreadable = parseBncAccountOption('Cuenta Corriente - 01910000000000001109 - Saldo: N/D', '0');
+    assert.equal(unreadable.balance, undefined);
+    assert.match(unreadable.error!, /Unreadable balance "N\/D" for account 01910000000000001109/);
+
+    const withoutBalance = parseBncAccountOption('Cuenta Corriente 01910000000000001109', '0');
+    assert.equal(withoutBalance.accountNumber, '01910000000000001109');
+    assert.equal(withoutBalance.balance, undefined);
+    assert.match(withoutBalance.error!, /No balance/);
+  });
+});
+
+describe('toBncAccount', () => {
+  it('builds an account only from an option with a readable balance', () => {
+    const account = toBncAccount(parseBncAccountOption('Cuenta Corriente - 01910000000000001109 - Saldo: 15.234,56 VES', '0'));
+
+    assert.equal(account?.accountCode, '0');
+    assert.deepEqual(account?.balanceMoney, { cents: 1523456, currency: 'VES' });
+    assert.equal(toBncAccount(parseBncAccountOption('Cuenta Corriente - 01910000000000001109 - Saldo: N/D', '0')), null);
+  });
+});
+
+describe('detectBncCurrency', () => {
+  it('maps currency labels to ISO codes, VES by default', () => {
+    assert.equal(detectBncCurrency('Dólares'), 'USD');
+    assert.equal(detectBncCurrency('$ 10,00'), 'USD');
+    assert.equal(detectBncCurrency('Euros'), 'EUR');
+    assert.equal(detectBncCurrency('Bs. 10,00'), 'VES');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { chromium } from 'playwright';
+import type { Browser, Page } from 'playwright';
+import { BncTransactionsScraper } from '../transactions';
+
+const FIXTURES = join(process.cwd(), 'src/banks/bnc/scrapers/__tests__/fixtures/replay');
+
+// Replay drives a real page; skipped where Playwright's Chromium is not installed
+const browserMissing = !existsSync(chromium.executablePath()) && 'Chromium not installed (npx playwright install chromium)';
+
+describe('BncTransactionsScraper replay of saved Last25 pages', { skip: browserMissing }, () => {
+  let browser: Browser;
+  let page: Page;
+
+  before(async () => {
+    browser = await chromium.launch();
+    page = await browser.newPage();
+  });
+  after(async () => { await browser?.close(); });
+
+  it('scrapes every capture as the account named in the manifest', async () => {
+    const scraper = new BncTransactionsScraper(page, { replay: { fixturesDir: FIXTURES }, waitBetweenActions: 0 });
+    const result = await scraper.scrapeTransactions();
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.metadata?.accountsScraped, ['BNC USD 0816', 'BNC VES 1109']);
+
+    const usd = result.data!.filter(transaction => transaction.accountName === 'BNC USD 0816');
+    assert.deepEqual(usd.map(transaction => [transaction.date, transaction.type, transaction.amount]), [
+      ['2025-05-30', 'credit', 300],
+      ['2025-05-28', 'debit', 50]
+    ]);
+    assert.ok(usd.every(transaction => transaction.currency === 'USD' && transaction.accountNumber === '01910000000000000816'));
+
+    const ves = result.data!.filter(transaction => transaction.accountName === 'BNC VES 1109');
+    assert.equal(ves.length, 3);
+    assert.ok(ves.every(transaction => transaction.currency === 'VES'));
+  });
+
+  it('leaves route handlers registered before the replay in place', async () => {
+    await page.route('**/probe', route => route.fulfill({ body: 'kept' }));
+
+    const scraper = new BncTransactionsScraper(page, { replay: { fixturesDir: FIXTURES, fixtures: ['bnc-ves.html'] }, waitBetweenActions: 0 });
+    await scraper.scrapeTransactions();
+
+    const response = await page.goto('http://127.0.0.1:9/probe');
+    assert.equal(await response!.text(), 'kept');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * BNC Accounts Scraper with Playwright
+ *
+ * BNC en Línea lists the customer's accounts in the account filter of the
+ * Last25 movements page, one option per account. The option label gives the
+ * account name and number; whether the live site also shows the balance there
+ * is not confirmed, so a balance is only reported when the label carries a
+ * readable "Saldo: 15.234,56 VES" part. Options without one are left out of
+ * the accounts result and listed in `metadata.rejectedRows`: a missing
+ * balance is never reported as 0.
+ */
+
+import { Page } from 'playwright';
+import type { BncAccount, BncAccountsResult, BncScrapingConfig } from '../types';
+import { BNC_URLS, BNC_SELECTORS } from '../types';
+import { withAccountMoney } from '../../../shared/utils/money';
+import { tryParseAmount } from '../../../shared/utils/amount-parser';
+
+// One account of the filter dropdown; positions match the bootstrap-select item ids
+export interface BncAccountOption {
+  accountNumber: string;
+  accountName: string;
+  accountType: string;
+  currency: string;
+  value: string;         // Option value (BNC account code)
+  label: string;
+  optionIndex: number;
+  balance?: number;      // Only when the label shows a readable balance
+  error?: string;        // Why the label gives no balance
+}
+
+export class BncAccountsScraper {
+  private page: Page;
+  private config: BncScrapingConfig;
+
+  constructor(page: Page, config: BncScrapingConfig = {}) {
+    this.page = page;
+    this.config = config;
+  }
+
+  /**
+   * Scrape every account of the account filter whose balance can be read
+   */
+  async scrapeAccounts(): Promise<BncAccountsResult> {
+    console.log('🏦 Starting BNC accounts scraping...');
+
+    try {
+      await this.page.goto(BNC_URLS.TRANSACTIONS, {
+        waitUntil: 'networkidle',
+        timeout: this.config.timeout ?? 30000
+      });
+
+      await this.page.waitForSelector(BNC_SELECTORS.ACCOUNT_OPTIONS, {
+        state: 'attached',
+        timeout: this.config.timeout ?? 30000
+      });
+
+      const options = await readBncAccountOptions(this.page);
+      const accounts = options
+        .map(toBncAccount)
+        .filter((account): account is BncAccount => account !== null);
+      const rejectedRows = options
+        .filter(option => option.error)
+        .map(option => ({ row: [option.label], error: option.error! }));
+
+      accounts.forEach(account =>
+        console.log(`💰 ${account.accountNumber} (${account.accountType}): ${account.balance} ${account.currency}`)
+      );
+      rejectedRows.forEach(({ error }) => console.log(`⚠️  ${error}`));
+
+      if (accounts.length === 0) {
+        throw new Error(options.length === 0
+          ? 'No accounts found in the account filter'
+          : `No readable balance in the ${options.length} account filter options`);
+      }
+
+      console.log(`✅ Found ${accounts.length} BNC accounts`);
+
+      return {
+        success: true,
+        message: `Successfully scraped ${accounts.length} accounts`,
+        data: accounts,
+        timestamp: new Date(),
+        bankName: 'BNC',
+        metadata: {
+          rejectedRows: rejectedRows.length > 0 ? rejectedRows : undefined
+        }
+      };
+
+    } catch (error: any) {
+      console.error(`❌ BNC accounts scraping failed: ${error.message}`);
+
+      return {
+        success: false,
+        message: `Accounts scraping failed: ${error.message}`,
+        data: [],
+        timestamp: new Date(),
+        error: error.message,
+        bankName: 'BNC'
+      };
+    }
+  }
+}
+
+/**
+ * Read the accounts of the filter dropdown on the current page (placeholders skipped)
+ */
+export async function readBncAccountOptions(page: Page): Promise<BncAccountOption[]> {
+  const options = await page.$$eval(BNC_SELECTORS.ACCOUNT_OPTIONS, elements =>
+    elements.map(element => ({
+      value: (element as HTMLOptionElement).value,
+      text: element.textContent?.trim() || ''
+    }))
+  );
+
+  return options
+    .map((option, optionIndex) => ({ option, optionIndex }))
+    .filter(({ option }) => option.value !== '' && option.text !== '')
+    .map(({ option, optionIndex }) => parseBncAccountOption(option.text, option.value, optionIndex));
+}
+
+/**
+ * Read name, number, type and currency from a filter option label, and the
+ * balance when the label shows a readable one ("... - Saldo: 15.234,56 VES")
+ */
+export function parseBncAccountOption(label: string, value: string, optionIndex: number = 0): BncAccountOption {
+  const [description, balancePart] = label.split(/saldo/i);
+  const balanceText = (balancePart ?? '').replace(/^[\s:]+/, '').trim();
+  const accountNumber = (description.replace(/(\d)-(?=\d)/g, '$1').match(/\d{4,}/g) || [])
+    .sort((a, b) => b.length - a.length)[0] || value;
+  const accountName = description.split(' - ')[0].trim() || label;
+  const balance = balanceText ? tryParseAmount(balanceText, { format: 'es-VE' }) : null;
+
+  const option: BncAccountOption = {
+    accountNumber,
+    accountName,
+    accountType: determineAccountType(label),
+    currency: balance?.currency || detectBncCurrency(label),
+    value,
+    label,
+    optionIndex
+  };
+
+  if (balance) {
+    return { ...option, balance: balance.value };
+  }
+
+  return {
+    ...option,
+    error: balanceText
+      ? `Unreadable balance "${balanceText}" for account ${accountNumber}`
+      : `No balance in the account filter label for account ${accountNumber}`
+  };
+}
+
+/**
+ * The BncAccount of an option, or null when its label gives no readable balance
+ */
+export function toBncAccount(option: BncAccountOption): BncAccount | null {
+  if (option.balance === undefined) {
+    return null;
+  }
+
+  return withAccountMoney({
+    accountNumber: option.accountNumber,
+    accountName: option.accountName,
+    accountType: option.accountType,
+    balance: option.balance,
+    currency: option.currency,
+    status: 'active',
+    bankName: 'BNC' as const,
+    accountCode: option.value
+  });
+}
+
+/**
+ * Normalize a currency label ("Bs.", "Bolívares", "$", "Dólares", "USD") to an ISO code
+ */
+export function detectBncCurrency(text: string): string {
+  const normalized = normalizeText(text);
+
+  if (/\b(usd|dolar(es)?)\b|\$/.test(normalized)) return 'USD';
+  if (/\b(eur|euros?)\b|€/.test(normalized)) return 'EUR';
+
+  return 'VES';
+}
+
+function determineAccountType(label: string): string {
+  const normalized = normalizeText(label);
+
+  if (normalized.includes('corriente')) return 'corriente';
+  if (normalized.includes('ahorro')) return 'ahorro';
+
+  return 'unknown';
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .trim();
+}
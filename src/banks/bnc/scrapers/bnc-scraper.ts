@@ -8,8 +8,14 @@
 import { Browser, Page, chromium } from 'playwright';
 import { BncAuth } from '../auth/bnc-auth';
 import { BncTransactionsScraper } from './transactions';
+import { BncAccountsScraper } from './accounts';
+import { TransactionStore } from '../../../shared/utils/transaction-store';
+import type { SyncResult } from '../../../shared/utils/transaction-store';
+import { resolveCategoryRules } from '../../../shared/utils/categorizer';
+import type { SessionKeepAlive } from '../../../shared/utils/session-keep-alive';
 import type { 
   BncCredentials, 
+  BncAccountsResult,
   BncAuthConfig, 
   BncScrapingConfig, 
   BncLoginResult, 
@@ -24,6 +30,10 @@ export interface BncScrapingSession {
   page?: Page;
 }
 
+export interface BncSyncSession extends BncScrapingSession {
+  sync: SyncResult<BncTransaction>[];  // New/changed transactions per account
+}
+
 export interface BncFullScrapingConfig extends BncAuthConfig, BncScrapingConfig {
   authenticateFirst?: boolean;  // Default: true
   closeAfterScraping?: boolean; // Default: true
@@ -35,13 +45,16 @@ export class BncScraper {
   private auth?: BncAuth;
   private browser?: Browser;
   private page?: Page;
+  private keepAlive: SessionKeepAlive | null = null;
 
   constructor(credentials: BncCredentials, config: BncFullScrapingConfig = {}) {
     this.credentials = credentials;
     this.config = {
       authenticateFirst: true,
       closeAfterScraping: true,
-      ...config
+      ...config,
+      // Read and validate category rules now, so bad rules fail before logging in
+      categoryRules: config.categoryRules && resolveCategoryRules(config.categoryRules)
     };
   }
 
@@ -67,13 +80,16 @@ export class BncScraper {
         }
         
         console.log('✅ Authentication successful');
+
+        // Ping BNC before its idle timeout; accounts stop being scraped once the session ends
+        this.keepAlive = this.auth?.startKeepAlive() || null;
       }
 
       // Step 2: Transaction scraping
       if (this.page && session.authResult.success) {
         console.log('📊 Starting transaction scraping...');
         
-        const transactionScraper = new BncTransactionsScraper(this.page, this.config);
+        const transactionScraper = new BncTransactionsScraper(this.page, this.config).setKeepAlive(this.keepAlive);
         const transactionResult = await transactionScraper.scrapeTransactions();
         
         session.transactionResults.push(transactionResult);
@@ -112,6 +128,38 @@ export class BncScraper {
     }
   }
 
+  /**
+   * Incremental scraping: query from the last synced date (unless `from` is set)
+   * and store the results, returning only new or changed transactions
+   */
+  async sync(store: TransactionStore = new TransactionStore()): Promise<BncSyncSession> {
+    const config = this.config;
+    const from = config.from || store.getSyncStart('BNC');
+
+    if (from && !config.from) {
+      console.log(`🔁 Incremental sync from last synced date: ${from}`);
+    }
+
+    let session: BncScrapingSession;
+    try {
+      this.config = { ...config, from: from || undefined };
+      session = await this.scrapeAll();
+    } finally {
+      this.config = config;
+    }
+
+    const transactions = session.transactionResults
+      .filter(result => result.success)
+      .flatMap(result => result.data || []);
+    const sync = store.sync('BNC', transactions);
+
+    const added = sync.reduce((total, result) => total + result.added.length, 0);
+    const changed = sync.reduce((total, result) => total + result.changed.length, 0);
+    console.log(`💾 Sync stored: ${added} new, ${changed} changed transactions in ${sync.length} accounts`);
+
+    return { ...session, sync };
+  }
+
   /**
    * Authenticate with BNC
    */
@@ -138,6 +186,18 @@ export class BncScraper {
     }
   }
 
+  /**
+   * Scrape accounts and balances from the account filter (requires existing authentication)
+   */
+  async scrapeAccounts(): Promise<BncAccountsResult> {
+    if (!this.page) {
+      throw new Error('No authenticated page available. Call authenticate() first.');
+    }
+
+    const scraper = new BncAccountsScraper(this.page, this.config);
+    return await scraper.scrapeAccounts();
+  }
+
   /**
    * Scrape transactions only (requires existing authentication)
    */
@@ -146,7 +206,7 @@ export class BncScraper {
       throw new Error('No authenticated page available. Call authenticate() first.');
     }
 
-    const scraper = new BncTransactionsScraper(this.page, this.config);
+    const scraper = new BncTransactionsScraper(this.page, this.config).setKeepAlive(this.keepAlive);
     return await scraper.scrapeTransactions();
   }
 
@@ -221,6 +281,7 @@ export class BncScraper {
       this.page = undefined;
       this.browser = undefined;
       this.auth = undefined;
+      this.keepAlive = null;
       
     } catch (error) {
       console.warn(`⚠️  Error during cleanup: ${error}`);
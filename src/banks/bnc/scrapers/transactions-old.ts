@@ -316,6 +316,7 @@ export class BncTransactionsScraper {
           transactionType: types[i] || '',
           referenceNumber: references[i] || '',
           balance: 0, // BNC doesn't provide balance in transaction list
+          currency: 'VES',
           category: 'Uncategorized'
         };
 
@@ -6,9 +6,27 @@
  */
 
 import { Page } from 'playwright';
-import type { BncTransaction, BncScrapingConfig, BncScrapingResult } from '../types';
-import { BNC_URLS, BNC_SELECTORS, BncAccountType } from '../types';
+import type { BncAccount, BncTransaction, BncScrapingConfig, BncScrapingResult } from '../types';
+import { BNC_URLS, BNC_SELECTORS, BNC_CONFIG } from '../types';
+import { readBncAccountOptions, toBncAccount, BncAccountOption } from './accounts';
 import { BaseBankScraper } from '../../../shared';
+import { withTransactionCents } from '../../../shared/utils/money';
+import { assignTransactionIds } from '../../../shared/utils/transaction-identity';
+import { withDescriptionDetails } from '../../../shared/utils/description-parser';
+import { todayInTimezone } from '../../../shared/utils/date-parser';
+import { SessionExpiredError } from '../../../shared/utils/session-keep-alive';
+
+// Rows shown by /Accounts/Transactions/Last25, the only movements view known on BNC en Línea
+const LAST25_ROWS = 25;
+
+// One account to scrape; its fields are attached to the transactions before they get their ids
+interface AccountTask {
+  name: string;
+  accountName: string;
+  accountNumber?: string;
+  currency?: string;  // Account currency, for rows whose amounts carry no currency marker
+  scrape: () => Promise<BncTransaction[]>;
+}
 
 export class BncTransactionsScraper extends BaseBankScraper<
   BncTransaction,
@@ -29,7 +47,7 @@ export class BncTransactionsScraper extends BaseBankScraper<
       waitBetweenActions: 1000,
       retries: 3,
       saveHtml: false,
-      maxAccounts: 3,  // BNC-specific default
+      maxAccounts: 10,  // BNC-specific default
       ...config
     } as Required<BncScrapingConfig>;
   }
@@ -41,6 +59,20 @@ export class BncTransactionsScraper extends BaseBankScraper<
     return BNC_URLS.TRANSACTIONS;
   }
 
+  /**
+   * BNC dates are shown in Caracas time
+   */
+  protected getTimezone(): string {
+    return BNC_CONFIG.timezone || super.getTimezone();
+  }
+
+  /**
+   * BNC amounts are shown in the bank's locale
+   */
+  protected getLocale(): string {
+    return BNC_CONFIG.locale || super.getLocale();
+  }
+
   /**
    * Get BNC-specific selectors
    */
@@ -49,6 +81,7 @@ export class BncTransactionsScraper extends BaseBankScraper<
       filterButton: BNC_SELECTORS.FILTER_BUTTON,
       searchButton: BNC_SELECTORS.SEARCH_BUTTON,
       dropdownIcon: BNC_SELECTORS.DROPDOWN_ICON,
+      accountOptionPrefix: BNC_SELECTORS.ACCOUNT_OPTION_PREFIX,
       transactionDate: BNC_SELECTORS.TRANSACTION_DATE,
       transactionType: BNC_SELECTORS.TRANSACTION_TYPE,
       transactionReference: BNC_SELECTORS.TRANSACTION_REFERENCE,
@@ -65,29 +98,39 @@ export class BncTransactionsScraper extends BaseBankScraper<
     
     const allTransactions: BncTransaction[] = [];
     const accountsScraped: string[] = [];
+    const accountsDiscovered: BncAccount[] = [];
     const errors: string[] = [];
+    const incompleteAccounts: string[] = [];
+    this.rejectedRows = [];
 
     try {
-      // Navigate to transactions page using base method
-      const navigated = await this.navigateToScrapingPage();
-      if (!navigated) {
-        throw new Error('Failed to navigate to transactions page');
+      const dateRange = this.getDateRange();
+      if (dateRange) {
+        this.log(`📅 Date range requested: ${dateRange.from} → ${dateRange.to}`);
       }
 
-      await this.debugPause('Transactions page loaded - ready to scrape accounts');
+      const accountTasks = this.isReplayMode()
+        ? await this.getReplayAccountTasks()
+        : await this.getLiveAccountTasks(accountsDiscovered);
 
-      // Iterate through all 3 account types
-      const accountTypes = [
-        { index: 1, name: BncAccountType.VES_1109 },
-        { index: 2, name: BncAccountType.USD_0816 },
-        { index: 3, name: BncAccountType.USD_0801 }
-      ];
+      if (accountTasks.length > this.config.maxAccounts) {
+        this.log(`ℹ️  ${accountTasks.length} accounts found, scraping the first ${this.config.maxAccounts} (maxAccounts)`);
+      }
 
-      for (const account of accountTypes.slice(0, this.config.maxAccounts)) {
+      for (const account of accountTasks.slice(0, this.config.maxAccounts)) {
         try {
-          this.log(`💰 Processing account: ${account.name} (index: ${account.index})`);
+          this.assertSessionActive();
+          this.log(`💰 Processing account: ${account.name}`);
           
-          const accountTransactions = await this.scrapeAccountTransactions(account.index, account.name);
+          // Ids include the account, so the same movement in two accounts stays two transactions
+          this.accountCurrency = account.currency || null;
+          const scraped = this.withAccount(await account.scrape(), account);
+          if (!this.coversDateRange(scraped, account.name)) {
+            incompleteAccounts.push(account.name);
+            throw new Error(`the last ${LAST25_ROWS} movements do not reach back to ${dateRange!.from}; BNC en Línea shows no older history`);
+          }
+
+          const accountTransactions = assignTransactionIds(this.filterByDateRange(scraped));
           
           if (accountTransactions.length > 0) {
             allTransactions.push(...accountTransactions);
@@ -101,6 +144,11 @@ export class BncTransactionsScraper extends BaseBankScraper<
           await this.page.waitForTimeout(this.config.waitBetweenActions);
 
         } catch (error: any) {
+          // A dead session fails every remaining account: stop here
+          if (error instanceof SessionExpiredError) {
+            throw error;
+          }
+
           const errorMessage = `Failed to scrape ${account.name}: ${error.message}`;
           this.log(`❌ ${errorMessage}`);
           errors.push(errorMessage);
@@ -114,13 +162,19 @@ export class BncTransactionsScraper extends BaseBankScraper<
 
       this.log(`🎉 Scraping completed: ${allTransactions.length} transactions from ${accountsScraped.length} accounts`);
 
-      return {
-        success: true,
-        message: `Successfully scraped ${allTransactions.length} transactions from ${accountsScraped.length} accounts`,
+      // A range older than the Last25 view would otherwise come back as a silently truncated history
+      const rangeError = incompleteAccounts.length > 0
+        ? `Requested range from ${dateRange!.from} is older than the movements BNC en Línea shows for: ${incompleteAccounts.join(', ')}`
+        : undefined;
+
+      return this.categorizeResult(this.verifyBalances<BncScrapingResult>({
+        success: !rangeError,
+        message: rangeError || `Successfully scraped ${allTransactions.length} transactions from ${accountsScraped.length} accounts`,
         data: allTransactions,
         timestamp: new Date(),
+        error: rangeError,
         bankName: 'BNC',
-        accountsFound: accountsScraped.length,
+        accountsFound: accountTasks.length,
         transactionsExtracted: allTransactions.length,
         sessionInfo: {
           loginTime: new Date().toISOString(),
@@ -128,9 +182,15 @@ export class BncTransactionsScraper extends BaseBankScraper<
         },
         metadata: {
           accountsScraped,
+          accounts: accountsDiscovered.length > 0 ? accountsDiscovered : undefined,
+          dateRange: dateRange
+            ? { ...dateRange, incompleteAccounts: incompleteAccounts.length > 0 ? incompleteAccounts : undefined }
+            : undefined,
+          replay: this.isReplayMode() || undefined,
+          rejectedRows: this.rejectedRows.length > 0 ? this.rejectedRows : undefined,
           errors: errors.length > 0 ? errors : undefined
         }
-      };
+      }));
 
     } catch (error: any) {
       this.log(`💥 Fatal error during scraping: ${error.message}`);
@@ -149,9 +209,98 @@ export class BncTransactionsScraper extends BaseBankScraper<
           errors: [error.message, ...errors]
         }
       };
+    } finally {
+      this.accountCurrency = null;
+      await this.stopReplay();
     }
   }
 
+  /**
+   * Build one task per account discovered on the live site
+   */
+  private async getLiveAccountTasks(accountsDiscovered: BncAccount[]): Promise<AccountTask[]> {
+    // Navigate to transactions page using base method
+    const navigated = await this.navigateToScrapingPage();
+    if (!navigated) {
+      throw new Error('Failed to navigate to transactions page');
+    }
+
+    await this.debugPause('Transactions page loaded - ready to scrape accounts');
+
+    const discovered = await this.discoverAccounts();
+    accountsDiscovered.push(...discovered
+      .map(toBncAccount)
+      .filter((account): account is BncAccount => account !== null));
+
+    return discovered.map(({ accountName, accountNumber, currency, optionIndex }) => {
+      const name = accountName || accountNumber;
+
+      return {
+        name,
+        accountName: name,
+        accountNumber,
+        currency,
+        scrape: () => this.scrapeAccountTransactions(optionIndex, name)
+      };
+    });
+  }
+
+  /**
+   * Attach the task's account to the transactions scraped for it
+   */
+  private withAccount(transactions: BncTransaction[], account: AccountTask): BncTransaction[] {
+    return transactions.map(transaction => ({
+      ...transaction,
+      accountName: account.accountName,
+      accountNumber: account.accountNumber
+    }));
+  }
+
+  /**
+   * Read the accounts offered by the account filter dropdown. Movements do not
+   * need the balance, so every account is scraped; options without a readable
+   * balance are reported in `rejectedRows` and left out of `metadata.accounts`
+   */
+  private async discoverAccounts(): Promise<BncAccountOption[]> {
+    this.log('🔎 Discovering accounts from the account filter...');
+
+    const discovered = await readBncAccountOptions(this.page);
+
+    if (discovered.length === 0) {
+      throw new Error('No accounts found in the account filter');
+    }
+
+    for (const { accountName, accountNumber, currency, balance, label, error } of discovered) {
+      this.log(`🏦 Found account: ${accountName} (${accountNumber}, ${currency}${balance === undefined ? '' : ` ${balance}`})`);
+
+      if (error) {
+        this.log(`⚠️  ${error}`);
+        this.rejectedRows.push({ row: [label], error });
+      }
+    }
+
+    return discovered;
+  }
+
+  /**
+   * Build one task per saved capture, labelled with the fixture's account name;
+   * the manifest may give the account number and currency
+   */
+  private async getReplayAccountTasks(): Promise<AccountTask[]> {
+    const fixtures = await this.startReplay();
+
+    return fixtures.map(fixture => ({
+      name: fixture.label,
+      accountName: fixture.label,
+      accountNumber: fixture.accountNumber,
+      currency: fixture.currency,
+      scrape: async () => {
+        await this.loadFixture(fixture);
+        return this.extractAccountTransactions(fixture.label);
+      }
+    }));
+  }
+
   /**
    * Scrape transactions for a specific account
    */
@@ -177,7 +326,7 @@ export class BncTransactionsScraper extends BaseBankScraper<
 
       // Select the specific account
       this.log(`🎯 Selecting account: ${accountName} (index: ${accountIndex})`);
-      const accountSelector = `#bs-select-1-${accountIndex}`;
+      const accountSelector = `${this.getSelectors().accountOptionPrefix}${accountIndex}`;
       
       const accountSelected = await this.clickElementWithRetry(accountSelector, 2);
       if (!accountSelected) {
@@ -194,34 +343,99 @@ export class BncTransactionsScraper extends BaseBankScraper<
       // Wait for results to load
       await this.page.waitForTimeout(3000);
 
-      // Expand all transaction details first
-      await this.expandAllTransactionDetails();
+      return await this.extractAccountTransactions(accountName);
 
-      // Extract transaction data using base method and custom parsing
-      const { headers, rows } = await this.extractTableData('#Tbl_Transactions');
-      
-      if (rows.length === 0) {
-        this.log(`ℹ️  No transactions found in table for ${accountName}`);
-        return [];
+    } catch (error: any) {
+      this.log(`❌ Error scraping ${accountName}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Requested date range (YYYY-MM-DD), or null for everything the Last25 view shows
+   */
+  private getDateRange(): { from: string; to: string } | null {
+    const { from, to } = this.config;
+
+    if (!from) {
+      if (to) {
+        throw new Error('BNC date queries require `from` when `to` is set');
       }
+      return null;
+    }
 
-      // Parse transactions using base parsing
-      const transactions = this.parseTransactionData(rows);
-      
-      // Add account-specific information
-      const enrichedTransactions = transactions.map(transaction => ({
-        ...transaction,
-        bankName: 'BNC' as const,
-        accountName
-      }));
+    const range = { from, to: to || todayInTimezone(this.getTimezone()) };
+    const isoDate = /^\d{4}-\d{2}-\d{2}$/;
 
-      this.log(`✅ Extracted ${enrichedTransactions.length} transactions from ${accountName}`);
-      return enrichedTransactions;
+    if (!isoDate.test(range.from) || !isoDate.test(range.to) || range.from > range.to) {
+      throw new Error(`Invalid BNC date range: ${range.from} → ${range.to} (expected YYYY-MM-DD, from <= to)`);
+    }
 
-    } catch (error: any) {
-      this.log(`❌ Error scraping ${accountName}: ${error.message}`);
-      throw error;
+    return range;
+  }
+
+  /**
+   * Whether the movements shown reach back to the start of the requested range.
+   * The Last25 view never shows more than 25 rows, so a full page whose oldest
+   * row is newer than `from` means older movements of the range are missing;
+   * such accounts fail instead of returning a truncated history.
+   */
+  private coversDateRange(transactions: BncTransaction[], accountName: string): boolean {
+    const dateRange = this.getDateRange();
+    if (!dateRange || transactions.length < LAST25_ROWS) {
+      return true;
+    }
+
+    const oldestDate = transactions.map(transaction => transaction.date).sort()[0];
+    if (oldestDate <= dateRange.from) {
+      return true;
+    }
+
+    this.log(`⚠️  ${accountName}: the last ${LAST25_ROWS} movements only reach back to ${oldestDate}, range from ${dateRange.from} is incomplete`);
+    return false;
+  }
+
+  /**
+   * Keep only transactions inside the requested date range
+   */
+  private filterByDateRange(transactions: BncTransaction[]): BncTransaction[] {
+    const dateRange = this.getDateRange();
+    if (!dateRange) {
+      return transactions;
     }
+
+    return transactions.filter(transaction =>
+      transaction.date >= dateRange.from && transaction.date <= dateRange.to
+    );
+  }
+
+  /**
+   * Extract the transactions table currently shown for an account
+   */
+  private async extractAccountTransactions(accountName: string): Promise<BncTransaction[]> {
+    // Expand all transaction details first
+    await this.expandAllTransactionDetails();
+
+    // Extract transaction data using base method and custom parsing
+    const { rows } = await this.extractTableData(BNC_SELECTORS.TRANSACTIONS_TABLE);
+    
+    if (rows.length === 0) {
+      this.log(`ℹ️  No transactions found in table for ${accountName}`);
+      return [];
+    }
+
+    // Parse transactions using base parsing
+    const transactions = this.parseTransactionData(rows);
+    
+    // Add account-specific information
+    const enrichedTransactions = transactions.map(transaction => ({
+      ...transaction,
+      bankName: 'BNC' as const,
+      accountName
+    }));
+
+    this.log(`✅ Extracted ${enrichedTransactions.length} transactions from ${accountName}`);
+    return enrichedTransactions;
   }
 
   /**
@@ -260,31 +474,32 @@ export class BncTransactionsScraper extends BaseBankScraper<
       if (row.length < 4) continue; // Skip incomplete rows
 
       try {
-        const date = this.parseDate(row[0] || '');
+        const { date, timestamp } = this.parseDateTime(row[0] || '');
         const type = row[1] || '';
         const reference = row[2] || '';
         const amountString = row[3] || '';
         const description = row[4] || '';
 
-        const amount = this.parseAmount(amountString);
-        const transactionType = this.determineTransactionType(amountString);
+        const amount = this.parseAmountDetails(amountString);
+        const transactionType = this.determineTransactionType(amount.value);
 
         const transaction: BncTransaction = {
-          id: `bnc-${reference}-${date}`,
           date,
+          timestamp,
           description: description || type,
-          amount: Math.abs(amount),
+          amount: Math.abs(amount.value),
           type: transactionType,
           balance: 0, // BNC doesn't provide running balance in this view
+          currency: this.resolveCurrency(amount.currency),
           bankName: 'BNC',
           transactionType: type,
           referenceNumber: reference
         };
 
-        transactions.push(transaction);
+        transactions.push(withTransactionCents(withDescriptionDetails(transaction), amount.cents));
 
       } catch (error) {
-        this.log(`⚠️  Failed to parse transaction row: ${error}`);
+        this.rejectRow(row, error);
         continue;
       }
     }
@@ -293,19 +508,10 @@ export class BncTransactionsScraper extends BaseBankScraper<
   }
 
   /**
-   * Determine transaction type from amount string
+   * Determine transaction type from the signed amount
    */
-  private determineTransactionType(amountString: string): 'debit' | 'credit' {
-    return amountString.includes('-') ? 'debit' : 'credit';
+  private determineTransactionType(amount: number): 'debit' | 'credit' {
+    return amount < 0 ? 'debit' : 'credit';
   }
 
-  /**
-   * Determine currency from account name
-   */
-  private determineCurrency(accountName: string): string {
-    if (accountName.includes('USD')) {
-      return 'USD';
-    }
-    return 'VES';
-  }
 } 
\ No newline at end of file
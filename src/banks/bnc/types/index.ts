@@ -41,7 +41,9 @@ export interface BncAuthConfig extends BaseBankAuthConfig {
 
 // BNC scraping configuration - extends base
 export interface BncScrapingConfig extends BaseBankScrapingConfig {
-  maxAccounts?: number;  // BNC-specific: limit accounts to scrape
+  maxAccounts?: number;  // BNC-specific: limit discovered accounts to scrape
+  from?: string;         // BNC-specific: range start (YYYY-MM-DD), filters the last 25 movements shown; an account whose 25 movements do not reach back to it fails the call
+  to?: string;           // BNC-specific: range end (YYYY-MM-DD), defaults to today; only the last 25 movements per account can be returned
 }
 
 // BNC-specific extensions
@@ -55,9 +57,13 @@ export interface BncTransaction extends BankTransaction {
   transactionType?: string;
   referenceNumber?: string;
   accountName?: string;    // Account name for multi-account support
+  accountNumber?: string;  // Account number parsed from the account filter
 }
 
-// BNC Account types (based on the original code)
+/**
+ * @deprecated Accounts are discovered from the account filter dropdown;
+ * these were the original author's accounts.
+ */
 export enum BncAccountType {
   VES_1109 = 'BNC VES 1109',
   USD_0816 = 'BNC USD 0816', 
@@ -65,11 +71,30 @@ export enum BncAccountType {
 }
 
 // BNC URLs and constants
-export const BNC_URLS = {
-  BASE: 'https://personas.bncenlinea.com',
-  LOGIN: 'https://personas.bncenlinea.com/',
-  TRANSACTIONS: 'https://personas.bncenlinea.com/Accounts/Transactions/Last25'
-};
+export const BNC_DEFAULT_BASE_URL = 'https://personas.bncenlinea.com';
+
+export function buildBncUrls(baseUrl: string) {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  return {
+    BASE: base,
+    LOGIN: `${base}/`,
+    TRANSACTIONS: `${base}/Accounts/Transactions/Last25`
+  };
+}
+
+export const BNC_URLS = buildBncUrls(BNC_DEFAULT_BASE_URL);
+
+/**
+ * Point BNC_URLS and BNC_CONFIG at another host (e.g. the local mock server).
+ * Call without arguments to restore the real BNC site.
+ */
+export function overrideBncUrls(baseUrl: string = BNC_DEFAULT_BASE_URL): void {
+  Object.assign(BNC_URLS, buildBncUrls(baseUrl));
+  BNC_CONFIG.baseUrl = BNC_URLS.BASE;
+  BNC_CONFIG.loginUrl = BNC_URLS.LOGIN;
+  BNC_CONFIG.session!.keepAliveUrl = BNC_URLS.TRANSACTIONS;
+}
 
 export const BNC_SELECTORS = {
   // Login selectors
@@ -80,9 +105,12 @@ export const BNC_SELECTORS = {
   LOGOUT_BUTTON: '#btn-logout',
   
   // Transaction selectors
+  TRANSACTIONS_TABLE: '#Tbl_Transactions',
   FILTER_BUTTON: '#PnlFilter > div.card.container-card.rounded > div.card-body > div > div.col-12.col-md-8.pb-4.pb-md-2 > div.form-label-floating > div > button',
   SEARCH_BUTTON: '#PnlFilter > div.card.container-card.rounded > div.card-body > div > div.col-12.offset-md-0.col-md-4.pb-md-2 > button',
   DROPDOWN_ICON: '#Tbl_Transactions > tbody > tr > td:nth-child(6) > i',
+  ACCOUNT_OPTIONS: '#PnlFilter select option',
+  ACCOUNT_OPTION_PREFIX: '#bs-select-1-',  // + option index (0 is the placeholder)
   
   // Transaction data selectors
   TRANSACTION_DATE: '#Tbl_Transactions > tbody > tr.cursor-pointer > td:nth-child(1)',
@@ -104,7 +132,12 @@ export const BNC_CONFIG: BankConfig = {
   loginUrl: BNC_URLS.LOGIN,
   supportedFeatures: ['accounts', 'transactions'],
   locale: 'es-VE',
-  timezone: 'America/Caracas'
+  timezone: 'America/Caracas',
+  session: {
+    idleTimeoutMinutes: 10,
+    maxLifetimeMinutes: 60,
+    keepAliveUrl: BNC_URLS.TRANSACTIONS
+  }
 };
 
 // BNC login result with additional properties
@@ -116,6 +149,11 @@ export interface BncLoginResult extends BaseBankLoginResult {
   };
 }
 
+// BNC accounts (account filter) scraping result
+export interface BncAccountsResult extends BaseBankScrapingResult<BncAccount> {
+  bankName: 'BNC';
+}
+
 // BNC scraping result interface - extends base
 export interface BncScrapingResult extends BaseBankScrapingResult<BncTransaction> {
   bankName: 'BNC';
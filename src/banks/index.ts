@@ -0,0 +1,22 @@
+/**
+ * Bank Registry Setup
+ *
+ * Registers every supported bank adapter and exposes the unified
+ * `createBankClient()` factory. Adding a bank only requires adding its
+ * adapter to the list below.
+ */
+
+import { registerBank } from '../shared/bank-registry';
+import { bncAdapter } from './bnc/adapter';
+import { banescoAdapter } from './banesco/adapter';
+
+[bncAdapter, banescoAdapter].forEach(registerBank);
+
+export {
+  createBankClient,
+  getBankAdapter,
+  isBankSupported,
+  listBanks
+} from '../shared/bank-registry';
+
+export type { BankAdapter, BankClientOptions } from '../shared/bank-registry';
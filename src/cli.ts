@@ -1,7 +1,7 @@
 #!/usr/bin/env tsx
 import { Command } from 'commander';
 import { config } from 'dotenv';
-import { existsSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { execSync } from 'child_process';
 import ora from 'ora';
 import path from 'path';
@@ -9,6 +9,10 @@ import chalk from 'chalk';
 import boxen from 'boxen';
 import Table from 'cli-table3';
 import figures from 'figures';
+import { exportTransactionsAs, formatFromFilename, getExporter, listExporters, loadLedgerRules } from './shared/exporters';
+import type { ExportableTransaction } from './shared/exporters';
+import { TransactionStore } from './shared/utils/transaction-store';
+import type { BankAccount } from './shared/types';
 
 // Load environment variables
 config();
@@ -128,6 +132,44 @@ interface HeadlessOptions {
   headless?: boolean;
 }
 
+interface ExportOptions {
+  format?: string;
+  output?: string;
+  accounts?: string;
+  rules?: string;
+}
+
+// Read transactions saved by exportTransactions, exportSession or the transaction store (.jsonl)
+function loadTransactionsFile(file: string): { bank?: string; transactions: ExportableTransaction[] } {
+  // A store file keeps every version of a changed transaction; export only the newest
+  if (file.endsWith('.jsonl')) {
+    return { transactions: TransactionStore.readTransactionsFile<ExportableTransaction>(file) };
+  }
+
+  const content = readFileSync(file, 'utf-8');
+  const data = JSON.parse(content);
+  if (Array.isArray(data)) {
+    return { transactions: data };
+  }
+  if (Array.isArray(data.transactions)) {
+    return { bank: data.bank, transactions: data.transactions };
+  }
+  if (Array.isArray(data.session?.transactionResults)) {
+    return {
+      bank: data.bank,
+      transactions: data.session.transactionResults.flatMap((result: { data?: ExportableTransaction[] }) => result.data || [])
+    };
+  }
+
+  throw new Error(`No se encontraron transacciones en ${file}`);
+}
+
+// Read accounts saved from scrapeAccounts (the result or its `data` array)
+function loadAccountsFile(file: string): BankAccount[] {
+  const data = JSON.parse(readFileSync(file, 'utf-8'));
+  return Array.isArray(data) ? data : data.data || data.accounts || [];
+}
+
 // BANK OPERATIONS
 // ===============
 const bankCommand = program.command('bank')
@@ -324,6 +366,44 @@ utilsCommand.command('html-viewer')
     await runScript('html-viewer.ts');
   });
 
+// Export
+utilsCommand.command('export <input>')
+  .description('Convertir transacciones exportadas (JSON/JSONL) a otro formato')
+  .option('-f, --format <format>', `Formato de salida (${listExporters().map(exporter => exporter.format).join(', ')})`)
+  .option('-o, --output <file>', 'Archivo de salida')
+  .option('--accounts <file>', 'Cuentas (JSON) para tipo de cuenta y saldos')
+  .option('--rules <file>', 'Reglas de cuentas contables (JSON) para hledger/beancount')
+  .action(async (input: string, options: ExportOptions) => {
+    log.title('Exportando transacciones');
+
+    try {
+      const format = options.format || (options.output && formatFromFilename(options.output)) || 'csv';
+      const exporter = getExporter(format);
+      const baseName = path.join(path.dirname(input), path.basename(input).replace(/\.jsonl?$/, ''));
+      // A JSON export of a .json file must not take the input's own name
+      const defaultOutput = path.resolve(`${baseName}${exporter.extension}`) === path.resolve(input)
+        ? `${baseName}-export${exporter.extension}`
+        : `${baseName}${exporter.extension}`;
+      const output = options.output || defaultOutput;
+
+      if (path.resolve(output) === path.resolve(input)) {
+        throw new Error(`El archivo de salida es el mismo de entrada (${input}); usa otro --output`);
+      }
+
+      const { bank, transactions } = loadTransactionsFile(input);
+      writeFileSync(output, exportTransactionsAs(exporter.format, transactions, {
+        bankName: bank,
+        accounts: options.accounts ? loadAccountsFile(options.accounts) : undefined,
+        ledger: options.rules ? loadLedgerRules(options.rules) : undefined
+      }));
+
+      log.success(`${transactions.length} transacciones exportadas a ${output} (${exporter.format})`);
+    } catch (error) {
+      log.error(`Error al exportar: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 // DIAGNOSTIC TOOLS
 // ===============
 const diagnosticCommand = program.command('diagnostic')
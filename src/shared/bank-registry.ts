@@ -0,0 +1,79 @@
+/**
+ * Bank Registry
+ *
+ * Central registry of bank adapters keyed by `BankConfig.code`. Each bank
+ * registers a single adapter that knows how to turn generic credentials and
+ * options into a client implementing the shared `BankScraper` interface, so
+ * application code can work with any bank without branching on it.
+ */
+
+import type {
+  BankConfig,
+  BankCredentials,
+  BankScraper,
+  BaseBankAuthConfig,
+  BaseBankScrapingConfig
+} from './types';
+
+// Options accepted by every bank client (auth + scraping)
+export interface BankClientOptions extends BaseBankAuthConfig, BaseBankScrapingConfig {}
+
+// Adapter that each bank module provides to the registry
+export interface BankAdapter {
+  config: BankConfig;
+  createClient(credentials: BankCredentials, options?: BankClientOptions): BankScraper;
+}
+
+const adapters = new Map<string, BankAdapter>();
+
+/**
+ * Register a bank adapter under its `BankConfig.code`
+ */
+export function registerBank(adapter: BankAdapter): void {
+  const code = adapter.config.code.toLowerCase();
+
+  if (adapters.has(code)) {
+    throw new Error(`Bank adapter already registered for code: ${code}`);
+  }
+
+  adapters.set(code, adapter);
+}
+
+/**
+ * Get the adapter registered for a bank code
+ */
+export function getBankAdapter(code: string): BankAdapter {
+  const adapter = adapters.get(code.toLowerCase());
+
+  if (!adapter) {
+    const available = listBanks().map(bank => bank.code).join(', ') || 'none';
+    throw new Error(`Unsupported bank: ${code} (available: ${available})`);
+  }
+
+  return adapter;
+}
+
+/**
+ * Check if a bank code has a registered adapter
+ */
+export function isBankSupported(code: string): boolean {
+  return adapters.has(code.toLowerCase());
+}
+
+/**
+ * List the configuration of every registered bank
+ */
+export function listBanks(): BankConfig[] {
+  return Array.from(adapters.values()).map(adapter => adapter.config);
+}
+
+/**
+ * Create a `BankScraper` client for the given bank code
+ */
+export function createBankClient(
+  code: string,
+  credentials: BankCredentials,
+  options: BankClientOptions = {}
+): BankScraper {
+  return getBankAdapter(code).createClient(credentials, options);
+}
@@ -7,7 +7,7 @@
  */
 
 import { Browser, Page, Frame, chromium, BrowserContext } from 'playwright';
-import type { BaseBankAuthConfig, BaseBankLoginResult, BaseBankCredentials } from './types';
+import type { BaseBankAuthConfig, BaseBankLoginResult, BaseBankCredentials, BankConfig } from './types';
 import { writeFileSync, appendFileSync, existsSync } from 'fs';
 import { 
   PerformanceConfig, 
@@ -16,6 +16,8 @@ import {
   isEssentialJS,
   PERFORMANCE_PRESETS
 } from './performance-config';
+import { SessionKeepAlive, SessionKeepAliveOptions } from './utils/session-keep-alive';
+import { SessionManager } from './utils/session-manager';
 
 export abstract class BaseBankAuth<
   TCredentials extends BaseBankCredentials,
@@ -31,6 +33,7 @@ export abstract class BaseBankAuth<
   protected logFile: string;
   protected bankName: string;
   protected performanceConfig: PerformanceConfig;
+  protected keepAlive: SessionKeepAlive | null = null;
 
   constructor(bankName: string, credentials: TCredentials, config: TConfig) {
     this.bankName = bankName;
@@ -105,6 +108,20 @@ export abstract class BaseBankAuth<
    */
   protected abstract verifyLoginSuccess(): Promise<boolean>;
 
+  /**
+   * Check that a restored session is still logged in (e.g. open an authenticated page
+   * and look for the login form). Subclasses must implement this
+   */
+  protected abstract validateRestoredSession(): Promise<boolean>;
+
+  /**
+   * Bank config with the session policy used by the keep-alive
+   * Subclasses override this to return their BankConfig
+   */
+  protected getBankConfig(): BankConfig | null {
+    return null;
+  }
+
   /**
    * Log message to console and file
    */
@@ -410,6 +427,13 @@ export abstract class BaseBankAuth<
 
       await this.debugPause('Browser initialized - ready to navigate to login page');
 
+      // Reuse a saved session when the bank still accepts it
+      if (this.config.saveSession && await this.tryRestoreSession()) {
+        this.isAuthenticated = true;
+        this.log(`🎉 ${this.bankName} session restored, login skipped`);
+        return { ...this.createSuccessResult(), sessionRestored: true };
+      }
+
       // Navigate to login page
       this.log(`🌐 Navigating to ${this.bankName} login page...`);
       await this.page.goto(this.getLoginUrl(), { 
@@ -425,6 +449,10 @@ export abstract class BaseBankAuth<
       if (loginSuccess) {
         this.isAuthenticated = true;
         this.log(`🎉 ${this.bankName} authentication successful!`);
+
+        if (this.config.saveSession) {
+          await this.persistSession();
+        }
         
         await this.debugPause('Login completed successfully - authenticated page ready');
         
@@ -440,6 +468,58 @@ export abstract class BaseBankAuth<
     }
   }
 
+  /**
+   * Restore the saved session into the page and validate it; invalid sessions are cleared
+   */
+  protected async tryRestoreSession(): Promise<boolean> {
+    const sessionManager = SessionManager.getInstance();
+
+    if (!this.page || !sessionManager.canPersistSessions()) {
+      return false;
+    }
+
+    try {
+      const restored = await sessionManager.restoreSession(this.page, this.getSessionUsername(), this.getBankConfig() || undefined);
+      if (!restored) {
+        return false;
+      }
+
+      if (await this.validateRestoredSession()) {
+        return true;
+      }
+
+      this.log('⚠️  Saved session is no longer valid, logging in');
+      await sessionManager.clearSession(this.getSessionUsername(), this.getBankConfig() || undefined);
+      return false;
+
+    } catch (error: any) {
+      this.log(`⚠️  Could not restore saved session: ${error.message || error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Save the authenticated session so the next login can restore it
+   */
+  protected async persistSession(): Promise<void> {
+    const sessionManager = SessionManager.getInstance();
+
+    if (!this.page || !sessionManager.canPersistSessions()) {
+      this.log('ℹ️  Session not saved: no session encryption key (BANKER_SESSION_KEY)');
+      return;
+    }
+
+    const saved = await sessionManager.saveSession(this.page, this.getSessionUsername(), this.getBankConfig() || undefined);
+    this.log(saved ? '💾 Session saved for the next login' : '⚠️  Could not save session');
+  }
+
+  /**
+   * Identity the saved session belongs to (the safe credentials from getCredentials)
+   */
+  protected getSessionUsername(): string {
+    return Object.values(this.getCredentials()).join(':');
+  }
+
   /**
    * Create success result - subclasses can override for additional data
    */
@@ -470,6 +550,31 @@ export abstract class BaseBankAuth<
     return this.isAuthenticated ? this.page : null;
   }
 
+  /**
+   * Keep the authenticated session alive until close(), pinging the bank before its idle
+   * timeout. Listen to 'expired' to learn when the bank ends the session.
+   */
+  startKeepAlive(options: SessionKeepAliveOptions = {}): SessionKeepAlive {
+    const bankConfig = this.getBankConfig();
+
+    if (!this.isAuthenticated || !this.page) {
+      throw new Error('Cannot keep alive a session that is not authenticated');
+    }
+    if (!bankConfig?.session) {
+      throw new Error(`${this.bankName} has no session policy for keep-alive`);
+    }
+
+    this.keepAlive?.stop();
+    this.keepAlive = new SessionKeepAlive(this.page, bankConfig, options);
+    this.keepAlive.on('expired', event => {
+      this.isAuthenticated = false;
+      this.log(`⌛ Session expired (${event.reason})${event.detail ? `: ${event.detail}` : ''}`);
+    });
+
+    this.log(`💓 Keep-alive started (idle timeout ${bankConfig.session.idleTimeoutMinutes} min, max ${bankConfig.session.maxLifetimeMinutes} min)`);
+    return this.keepAlive.start();
+  }
+
   /**
    * Check if currently authenticated
    */
@@ -531,6 +636,9 @@ export abstract class BaseBankAuth<
    */
   async close(): Promise<void> {
     try {
+      this.keepAlive?.stop();
+      this.keepAlive = null;
+
       if (this.page) {
         await this.page.close();
         this.page = null;
@@ -6,9 +6,22 @@
  * and common scraping patterns with performance optimizations.
  */
 
-import { Page } from 'playwright';
-import type { BankTransaction, ScrapingResult } from './types';
+import { Page, Route } from 'playwright';
+import type { BankAccount, BankTransaction, ScrapingResult, ReplayConfig } from './types';
 import { writeFileSync, appendFileSync, existsSync } from 'fs';
+import { FixtureServer, ReplayFixture } from './utils/fixture-server';
+import { parseAmount, amountFormatForLocale, AmountParseError, AmountFormat, ParsedAmount } from './utils/amount-parser';
+import { parseBankDate, DateParseError, ParsedDate, DEFAULT_BANK_TIMEZONE } from './utils/date-parser';
+import { exportTransactionsAs, formatFromFilename, getExporter } from './exporters';
+import { TransactionCategorizer, CategoryRule } from './utils/categorizer';
+import { validateBalanceContinuity, StatementSummary } from './utils/balance-validator';
+import type { SessionKeepAlive } from './utils/session-keep-alive';
+
+// Currency of amounts when neither the amount nor the account tells
+const DEFAULT_CURRENCY = 'VES';
+
+// Locale of banks that do not set BankConfig.locale
+const DEFAULT_LOCALE = 'es-VE';
 
 export interface BaseBankScrapingConfig {
   debug?: boolean;         // Default: false
@@ -16,6 +29,9 @@ export interface BaseBankScrapingConfig {
   waitBetweenActions?: number;  // Default: 1000ms
   retries?: number;        // Default: 3
   saveHtml?: boolean;      // Default: false
+  replay?: ReplayConfig;   // Default: undefined (scrape the live site)
+  categoryRules?: string | CategoryRule[];  // Rules file (JSON/YAML) or rules that set `category`
+  amountFormat?: AmountFormat;  // Default: the notation of the bank's locale (BankConfig.locale)
   performance?: {          // Performance optimization settings
     blockCSS?: boolean;
     blockImages?: boolean;
@@ -36,11 +52,20 @@ export abstract class BaseBankScraper<
   protected config: Required<TConfig>;
   protected logFile: string;
   protected bankName: string;
+  protected fixtureServer: FixtureServer | null = null;
+  private replayRoute: ((route: Route) => Promise<void>) | null = null;
+  protected rejectedRows: Array<{ row: string[]; error: string }> = [];
+  protected accountCurrency: string | null = null;  // Currency of the account being scraped, when known
+  protected keepAlive: SessionKeepAlive | null = null;
+  private categorizer: TransactionCategorizer | null;
 
   constructor(bankName: string, page: Page, config: TConfig) {
     this.bankName = bankName;
     this.page = page;
     this.config = this.getDefaultConfig(config);
+
+    // Invalid rules fail here, before anything is scraped (CategoryRuleError or a file error)
+    this.categorizer = this.config.categoryRules ? TransactionCategorizer.fromConfig(this.config.categoryRules) : null;
     
     // Setup log file
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -186,6 +211,91 @@ export abstract class BaseBankScraper<
     }
   }
 
+  /**
+   * Watch the bank session while scraping (see BaseBankAuth.startKeepAlive)
+   */
+  setKeepAlive(keepAlive: SessionKeepAlive | null): this {
+    this.keepAlive = keepAlive;
+    return this;
+  }
+
+  /**
+   * Throw SessionExpiredError when the keep-alive knows the session is dead, so
+   * multi-account loops stop instead of scraping login pages
+   */
+  protected assertSessionActive(): void {
+    this.keepAlive?.assertActive();
+  }
+
+  /**
+   * Check if the scraper is replaying saved HTML instead of the live site
+   */
+  protected isReplayMode(): boolean {
+    return !!this.config.replay?.fixturesDir;
+  }
+
+  /**
+   * Start the local fixture server and block every request that does not go
+   * to it, so a replay never touches the bank's live site
+   */
+  protected async startReplay(): Promise<ReplayFixture[]> {
+    const replay = this.config.replay;
+    if (!replay) {
+      throw new Error('Replay mode is not configured');
+    }
+
+    this.fixtureServer = new FixtureServer(replay.fixturesDir);
+    const baseUrl = await this.fixtureServer.start();
+
+    // Local requests fall through to any other handlers (e.g. resource blocking)
+    this.replayRoute = async (route: Route) => {
+      if (route.request().url().startsWith(baseUrl)) {
+        await route.fallback();
+      } else {
+        await route.abort();
+      }
+    };
+    await this.page.route('**/*', this.replayRoute);
+
+    const fixtures = this.fixtureServer.listFixtures(replay.fixtures);
+    this.log(`🎞️  Replay mode: ${fixtures.length} fixtures from ${replay.fixturesDir}`);
+
+    return fixtures;
+  }
+
+  /**
+   * Stop the fixture server and remove the replay routing, leaving other route handlers in place
+   */
+  protected async stopReplay(): Promise<void> {
+    if (!this.fixtureServer) return;
+
+    this.accountCurrency = null;
+
+    if (this.replayRoute) {
+      try {
+        await this.page.unroute('**/*', this.replayRoute);
+      } catch (error) {
+        // Page may already be closed
+      }
+      this.replayRoute = null;
+    }
+
+    await this.fixtureServer.stop();
+    this.fixtureServer = null;
+  }
+
+  /**
+   * Load a replay fixture into the page
+   */
+  protected async loadFixture(fixture: ReplayFixture): Promise<void> {
+    this.log(`🎞️  Loading fixture: ${fixture.file} (${fixture.label})`);
+    this.accountCurrency = fixture.currency || null;
+    await this.page.goto(fixture.url, {
+      waitUntil: 'domcontentloaded',
+      timeout: this.config.timeout
+    });
+  }
+
   /**
    * Extract table data from page
    */
@@ -331,74 +441,156 @@ export abstract class BaseBankScraper<
   }
 
   /**
-   * Parse amount string to number
+   * Locale the bank's screens are shown in (override with the bank's BankConfig.locale)
+   */
+  protected getLocale(): string {
+    return DEFAULT_LOCALE;
+  }
+
+  /**
+   * Notation used to settle ambiguous amounts like "1.234": the `amountFormat`
+   * config option, else the notation of the bank's locale
+   */
+  protected getAmountFormat(): AmountFormat {
+    return this.config.amountFormat || amountFormatForLocale(this.getLocale());
+  }
+
+  /**
+   * Parse amount string to a signed number, throwing AmountParseError if it cannot be read
    */
   protected parseAmount(amountString: string): number {
+    return this.parseAmountDetails(amountString).value;
+  }
+
+  /**
+   * Parse amount string keeping its exact cents and currency marker (null when it has none)
+   */
+  protected parseAmountDetails(amountString: string): ParsedAmount {
     try {
-      // Remove currency symbols, spaces, and normalize
-      const cleanAmount = amountString
-        .replace(/[^\d,.-]/g, '') // Remove non-numeric except ,.-
-        .replace(/\./g, '')       // Remove thousands separators
-        .replace(/,/g, '.');      // Convert comma to decimal point
-      
-      return parseFloat(cleanAmount) || 0;
-      
+      return parseAmount(amountString, { format: this.getAmountFormat() });
     } catch (error) {
-      this.log(`⚠️  Failed to parse amount: ${amountString}`);
-      return 0;
+      if (error instanceof AmountParseError) {
+        this.log(`⚠️  ${error.message}`);
+      }
+      throw error;
     }
   }
 
   /**
-   * Parse date string to standardized format
+   * Currency of a row: the first currency marker found in its amounts, else the
+   * currency of the account being scraped, else VES
    */
-  protected parseDate(dateString: string): string {
+  protected resolveCurrency(...markers: Array<string | null | undefined>): string {
+    return markers.find((marker): marker is string => !!marker) || this.accountCurrency || DEFAULT_CURRENCY;
+  }
+
+  /**
+   * Timezone the bank's dates are expressed in (override with the bank's BankConfig.timezone)
+   */
+  protected getTimezone(): string {
+    return DEFAULT_BANK_TIMEZONE;
+  }
+
+  /**
+   * Parse a date or date+time cell in the bank's timezone, throwing DateParseError if invalid
+   */
+  protected parseDateTime(dateString: string): ParsedDate {
     try {
-      // Handle common Venezuelan date formats: DD/MM/YYYY, DD-MM-YYYY
-      const cleanDate = dateString.replace(/[^\d/\-]/g, '');
-      
-      if (cleanDate.includes('/')) {
-        const parts = cleanDate.split('/');
-        if (parts.length === 3) {
-          const [day, month, year] = parts;
-          return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-        }
+      return parseBankDate(dateString, { timezone: this.getTimezone() });
+    } catch (error) {
+      if (error instanceof DateParseError) {
+        this.log(`⚠️  ${error.message}`);
       }
-      
-      if (cleanDate.includes('-')) {
-        const parts = cleanDate.split('-');
-        if (parts.length === 3) {
-          const [day, month, year] = parts;
-          return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+      throw error;
+    }
+  }
+
+  /**
+   * Parse date string to standardized format (YYYY-MM-DD), throwing DateParseError if invalid
+   */
+  protected parseDate(dateString: string): string {
+    return this.parseDateTime(dateString).date;
+  }
+
+  /**
+   * Record a table row that could not be parsed so it is reported in the result metadata
+   */
+  protected rejectRow(row: string[], error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.log(`⚠️  Failed to parse transaction row: ${message}`);
+    this.rejectedRows.push({ row, error: message });
+  }
+
+  /**
+   * Set categories from `config.categoryRules` (if any) and report the uncategorized
+   * transactions in `metadata.categorization`
+   */
+  protected categorizeResult<R extends ScrapingResult<TTransaction>>(result: R): R {
+    if (!this.categorizer || !result.data || result.data.length === 0) {
+      return result;
+    }
+
+    const { transactions, categorized, uncategorized } = this.categorizer.categorize(result.data);
+    this.log(`🏷️  Categorized ${categorized} transactions, ${uncategorized.length} without category`);
+
+    return {
+      ...result,
+      data: transactions,
+      metadata: {
+        ...result.metadata,
+        categorization: {
+          categorized,
+          uncategorized: uncategorized.map(({ id, date, description, amount, type }) => ({ id, date, description, amount, type }))
         }
       }
-      
-      return dateString; // Return as-is if can't parse
-      
-    } catch (error) {
-      this.log(`⚠️  Failed to parse date: ${dateString}`);
-      return dateString;
+    };
+  }
+
+  /**
+   * Check the running balances (and the statement summary, if any) of a result
+   * and record the outcome in `metadata.balanceCheck`. Breaks are flagged, not fatal.
+   */
+  protected verifyBalances<R extends ScrapingResult<TTransaction>>(result: R, summary?: StatementSummary): R {
+    if (!result.data || result.data.length === 0) {
+      return result;
+    }
+
+    const balanceCheck = validateBalanceContinuity(result.data, summary);
+    if (!balanceCheck.valid) {
+      this.log(`⚠️  Balance check found ${balanceCheck.issues.length} inconsistencies (missing or mis-parsed movements)`);
+      balanceCheck.issues.slice(0, 5).forEach(issue =>
+        this.log(`   ${issue.kind} ${issue.account} ${issue.date || ''}: expected ${issue.expected}, got ${issue.actual}`)
+      );
     }
+
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        balanceCheck
+      }
+    };
   }
 
   /**
-   * Export transactions to file
+   * Export transactions to file. The format is taken from `format`, else from
+   * the file extension, else JSON (see `listExporters()` for csv, ofx, qif...)
    */
-  exportTransactions(transactions: TTransaction[], filename?: string): string {
+  exportTransactions(transactions: TTransaction[], filename?: string, format?: string, accounts?: BankAccount[]): string {
     try {
+      const exportFormat = format || (filename && formatFromFilename(filename)) || 'json';
+      const exporter = getExporter(exportFormat);
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const defaultFilename = `${this.bankName.toLowerCase()}-transactions-${timestamp}.json`;
+      const defaultFilename = `${this.bankName.toLowerCase()}-transactions-${timestamp}${exporter.extension}`;
       const exportFilename = filename || defaultFilename;
       
-      const exportData = {
-        bank: this.bankName,
-        exported: new Date().toISOString(),
-        count: transactions.length,
-        transactions
-      };
+      const content = exportTransactionsAs(exporter.format, transactions, {
+        bankName: this.bankName,
+        accounts
+      });
       
-      writeFileSync(exportFilename, JSON.stringify(exportData, null, 2));
-      this.log(`📤 Transactions exported to: ${exportFilename}`);
+      writeFileSync(exportFilename, content);
+      this.log(`📤 Transactions exported to: ${exportFilename} (${exporter.format})`);
       
       return exportFilename;
       
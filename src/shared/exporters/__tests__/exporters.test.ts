@@ -0,0 +1,149 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportTransactionsAs, formatFromFilename, getExporter, ledgerBankAccount, ledgerCategoryAccount } from '../index';
+import { withAccountMoney, withTransactionMoney } from '../../utils/money';
+import type { ExportContext, ExportableTransaction } from '../types';
+
+const transactions: ExportableTransaction[] = [
+  withTransactionMoney({
+    date: '2025-01-16',
+    timestamp: '2025-01-16T14:30:00-04:00',
+    description: 'COMPRA TDD "PANADERIA", LA ESPIGA',
+    amount: 250.5,
+    type: 'debit',
+    balance: 749.5,
+    currency: 'VES',
+    reference: '0001',
+    category: 'Comida',
+    bankName: 'Banesco',
+    accountNumber: '01340000000000004521'
+  }),
+  withTransactionMoney({
+    date: '2025-01-15',
+    description: 'PAGO MOVIL RECIBIDO',
+    amount: 1000,
+    type: 'credit',
+    balance: 1000,
+    currency: 'VES',
+    bankName: 'Banesco',
+    accountNumber: '01340000000000004521'
+  })
+];
+
+const context: ExportContext = {
+  exportedAt: new Date('2025-01-17T12:00:00Z'),
+  accounts: [withAccountMoney({
+    accountNumber: '01340000000000004521',
+    accountType: 'Cuenta de Ahorro',
+    balance: 749.5,
+    availableBalance: 700,
+    currency: 'VES',
+    status: 'active'
+  })]
+};
+
+describe('exporter registry', () => {
+  it('finds exporters by format and file extension', () => {
+    assert.equal(getExporter('CSV').format, 'csv');
+    assert.equal(formatFromFilename('movimientos.journal'), 'hledger');
+    assert.equal(formatFromFilename('movimientos.txt'), null);
+    assert.throws(() => getExporter('xlsx'), /Unsupported export format: xlsx/);
+  });
+
+  it('assigns ids before exporting', () => {
+    const exported = JSON.parse(exportTransactionsAs('json', transactions, context));
+    assert.equal(exported.count, 2);
+    assert.equal(exported.bank, 'Banesco');
+    assert.equal(exported.exported, '2025-01-17T12:00:00.000Z');
+    assert.match(exported.transactions[0].id, /^banesco-[0-9a-f]{16}$/);
+  });
+});
+
+describe('csv', () => {
+  it('writes signed amounts and quotes fields', () => {
+    const lines = exportTransactionsAs('csv', transactions, context).split('\r\n');
+
+    assert.equal(lines[0], 'id,date,bank,account,description,reference,type,amount,currency,balance,category');
+    assert.match(lines[1], /,2025-01-16,Banesco,01340000000000004521,"COMPRA TDD ""PANADERIA"", LA ESPIGA",0001,debit,-250.50,VES,749.50,Comida$/);
+    assert.match(lines[2], /,credit,1000.00,VES,1000.00,$/);
+  });
+});
+
+describe('ofx', () => {
+  it('writes one statement per account with balances', () => {
+    const ofx = exportTransactionsAs('ofx', transactions, context);
+
+    assert.match(ofx, /^OFXHEADER:100\r\n/);
+    assert.match(ofx, /<BANKID>0134\r\n<ACCTID>01340000000000004521\r\n<ACCTTYPE>SAVINGS/);
+    assert.match(ofx, /<DTSTART>20250115\r\n<DTEND>20250116/);
+    assert.match(ofx, /<DTPOSTED>20250116143000\[-4\]\r\n<TRNAMT>-250.50/);
+    assert.match(ofx, /<LEDGERBAL>\r\n<BALAMT>749.50/);
+    assert.match(ofx, /<AVAILBAL>\r\n<BALAMT>700.00/);
+    assert.equal((ofx.match(/<FITID>banesco-/g) || []).length, 2);
+  });
+});
+
+describe('qif', () => {
+  it('writes MM/DD/YYYY dates, oldest first', () => {
+    const qif = exportTransactionsAs('qif', transactions, context);
+
+    assert.match(qif, /^!Account\nNBanesco 01340000000000004521\nTBank\nDVES\n\^\n!Type:Bank\n/);
+    assert.match(qif, /D01\/15\/2025\nT1000.00\nPPAGO MOVIL RECIBIDO\n\^\nD01\/16\/2025\nT-250.50\nN0001\n/);
+    assert.match(qif, /LComida\n\^\n$/);
+  });
+});
+
+describe('ledger accounts', () => {
+  it('maps bank accounts and categories', () => {
+    assert.equal(ledgerBankAccount('01340000000000004521', 'Banesco'), 'Assets:Bank:Banesco:4521');
+    assert.equal(ledgerBankAccount('X', 'Banesco', { accounts: { X: 'Assets:Ahorro' } }), 'Assets:Ahorro');
+    assert.equal(ledgerCategoryAccount(transactions[0]), 'Expenses:Comida');
+    assert.equal(ledgerCategoryAccount(transactions[0], { categories: { Comida: 'Expenses:Food' } }), 'Expenses:Food');
+    assert.equal(ledgerCategoryAccount(transactions[1]), 'Income:Uncategorized');
+  });
+});
+
+describe('hledger', () => {
+  it('writes two-posting entries', () => {
+    const journal = exportTransactionsAs('hledger', transactions, context);
+
+    assert.match(journal, /2025-01-15 \* PAGO MOVIL RECIBIDO\n    ; id: banesco-[0-9a-f]{16}\n    Assets:Bank:Banesco:4521  1000.00 VES\n    Income:Uncategorized  -1000.00 VES/);
+    assert.match(journal, /2025-01-16 \* \(0001\) COMPRA TDD/);
+  });
+
+  it('opens the account at the balance before the first transaction', () => {
+    const journal = exportTransactionsAs('hledger', transactions, context);
+
+    // 749.50 reported - 1000.00 + 250.50 of movements
+    assert.match(journal, /^2025-01-14 \* Opening balance\n    Assets:Bank:Banesco:4521  = 0.00 VES\n    Equity:Opening-Balances\n/);
+    assert.match(journal, /2025-01-17 \* Balance reported by the bank\n    Assets:Bank:Banesco:4521  0 VES = 749.50 VES\n$/);
+  });
+
+  it('leaves out opening balances and assertions without account metadata', () => {
+    const journal = exportTransactionsAs('hledger', transactions, { ...context, accounts: [] });
+    assert.doesNotMatch(journal, /Opening balance|=/);
+  });
+});
+
+describe('beancount', () => {
+  it('opens accounts before their first use', () => {
+    const ledger = exportTransactionsAs('beancount', transactions, context);
+
+    assert.match(ledger, /2025-01-15 open Income:Uncategorized\n/);
+    assert.match(ledger, /2025-01-16 open Expenses:Comida\n/);
+    assert.match(exportTransactionsAs('beancount', transactions, {}), /^2025-01-15 open Assets:Bank:Banesco:4521\n/);
+    assert.match(ledger, /2025-01-16 \* "COMPRA TDD \\"PANADERIA\\", LA ESPIGA"\n  id: "banesco-[0-9a-f]{16}"\n  reference: "0001"/);
+  });
+
+  it('pads from the opening balance account before the balance assertion', () => {
+    const ledger = exportTransactionsAs('beancount', transactions, {
+      ...context,
+      ledger: { openingBalanceAccount: 'Equity:Saldos-Iniciales' }
+    });
+
+    assert.match(ledger, /^2025-01-14 open Assets:Bank:Banesco:4521\n2025-01-14 open Equity:Saldos-Iniciales\n/);
+    assert.match(ledger, /\n2025-01-14 pad Assets:Bank:Banesco:4521 Equity:Saldos-Iniciales\n/);
+    assert.match(ledger, /\n2025-01-18 balance Assets:Bank:Banesco:4521  749.50 VES\n$/);
+    assert.ok(ledger.indexOf(' pad ') < ledger.indexOf(' balance '));
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * CSV Exporter
+ *
+ * One row per transaction (RFC 4180 quoting). `amount` is signed: credits are
+ * positive, debits negative, with two decimals and a "." separator.
+ */
+
+import { moneyToDecimal, toMoney, transactionAmount } from '../utils/money';
+import { transactionAccount, transactionBank, transactionReference } from './helpers';
+import type { TransactionExporter } from './types';
+
+const COLUMNS = ['id', 'date', 'bank', 'account', 'description', 'reference', 'type', 'amount', 'currency', 'balance', 'category'];
+
+export const csvExporter: TransactionExporter = {
+  format: 'csv',
+  extension: '.csv',
+  description: 'CSV with signed amounts (credits positive, debits negative)',
+
+  export(transactions, context) {
+    const rows = transactions.map(transaction => {
+      const amount = transactionAmount(transaction);
+      const balance = transaction.balanceMoney || toMoney(transaction.balance, amount.currency);
+
+      return [
+        transaction.id || '',
+        transaction.date,
+        transactionBank(transaction, context),
+        transactionAccount(transaction),
+        transaction.description,
+        transactionReference(transaction),
+        transaction.type,
+        moneyToDecimal(amount),
+        amount.currency,
+        moneyToDecimal(balance),
+        transaction.category || ''
+      ];
+    });
+
+    return [COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+  }
+};
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
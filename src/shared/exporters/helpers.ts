@@ -0,0 +1,51 @@
+/**
+ * Helpers shared by the exporters
+ */
+
+import type { AccountGroup, ExportContext, ExportableTransaction } from './types';
+
+// Account label used when transactions carry no account number or name
+export const UNKNOWN_ACCOUNT = 'unknown';
+
+/**
+ * Group transactions by account (in first-seen order), oldest transaction first
+ */
+export function groupByAccount(transactions: ExportableTransaction[], context: ExportContext): AccountGroup[] {
+  const groups = new Map<string, AccountGroup>();
+
+  for (const transaction of transactions) {
+    const accountNumber = transactionAccount(transaction);
+    let group = groups.get(accountNumber);
+
+    if (!group) {
+      const account = context.accounts?.find(candidate => candidate.accountNumber === accountNumber);
+      group = {
+        accountNumber,
+        account,
+        currency: account?.currency || transaction.currency,
+        transactions: []
+      };
+      groups.set(accountNumber, group);
+    }
+
+    group.transactions.push(transaction);
+  }
+
+  for (const group of groups.values()) {
+    group.transactions.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return [...groups.values()];
+}
+
+export function transactionAccount(transaction: ExportableTransaction): string {
+  return transaction.accountNumber || transaction.accountName || UNKNOWN_ACCOUNT;
+}
+
+export function transactionBank(transaction: ExportableTransaction, context: ExportContext): string {
+  return transaction.bankName || context.bankName || '';
+}
+
+export function transactionReference(transaction: ExportableTransaction): string {
+  return transaction.reference || (transaction as { referenceNumber?: string }).referenceNumber || '';
+}
@@ -0,0 +1,80 @@
+/**
+ * Transaction Exporters
+ *
+ * Registry of transaction exporters keyed by format ('json', 'csv', 'ofx',
+ * 'qif', 'hledger', 'beancount'). Every exporter turns a list of transactions
+ * plus account metadata into the text of a file; `exportTransactionsAs` picks
+ * one by format and makes sure every transaction has its deterministic id first.
+ */
+
+import { assignTransactionIds } from '../utils/transaction-identity';
+import { jsonExporter } from './json';
+import { csvExporter } from './csv';
+import { ofxExporter } from './ofx';
+import { qifExporter } from './qif';
+import { hledgerExporter, beancountExporter } from './ledger';
+import type { ExportContext, ExportableTransaction, TransactionExporter } from './types';
+
+const exporters = new Map<string, TransactionExporter>();
+
+/**
+ * Register an exporter under its format
+ */
+export function registerExporter(exporter: TransactionExporter): void {
+  const format = exporter.format.toLowerCase();
+
+  if (exporters.has(format)) {
+    throw new Error(`Exporter already registered for format: ${format}`);
+  }
+
+  exporters.set(format, exporter);
+}
+
+/**
+ * Get the exporter registered for a format
+ */
+export function getExporter(format: string): TransactionExporter {
+  const exporter = exporters.get(format.toLowerCase());
+
+  if (!exporter) {
+    const available = listExporters().map(candidate => candidate.format).join(', ') || 'none';
+    throw new Error(`Unsupported export format: ${format} (available: ${available})`);
+  }
+
+  return exporter;
+}
+
+/**
+ * List every registered exporter
+ */
+export function listExporters(): TransactionExporter[] {
+  return Array.from(exporters.values());
+}
+
+/**
+ * Format whose extension matches the file name ("movimientos.ofx" → 'ofx'), null if none
+ */
+export function formatFromFilename(filename: string): string | null {
+  const exporter = listExporters().find(candidate => filename.toLowerCase().endsWith(candidate.extension));
+  return exporter ? exporter.format : null;
+}
+
+/**
+ * Render transactions in the given format
+ */
+export function exportTransactionsAs(
+  format: string,
+  transactions: ExportableTransaction[],
+  context: ExportContext = {}
+): string {
+  const exporter = getExporter(format);
+  const withIds = transactions.every(transaction => transaction.id) ? transactions : assignTransactionIds(transactions);
+
+  return exporter.export(withIds, context);
+}
+
+[jsonExporter, csvExporter, ofxExporter, qifExporter, hledgerExporter, beancountExporter].forEach(registerExporter);
+
+export { jsonExporter, csvExporter, ofxExporter, qifExporter, hledgerExporter, beancountExporter };
+export { loadLedgerRules, ledgerBankAccount, ledgerCategoryAccount } from './ledger';
+export type { ExportContext, ExportableTransaction, TransactionExporter, AccountGroup, LedgerRules } from './types';
@@ -0,0 +1,22 @@
+/**
+ * JSON Exporter
+ *
+ * The original export layout: `{ bank, exported, count, transactions }`.
+ */
+
+import type { TransactionExporter } from './types';
+
+export const jsonExporter: TransactionExporter = {
+  format: 'json',
+  extension: '.json',
+  description: 'JSON document with the transactions as scraped',
+
+  export(transactions, context) {
+    return JSON.stringify({
+      bank: context.bankName || transactions[0]?.bankName,
+      exported: (context.exportedAt || new Date()).toISOString(),
+      count: transactions.length,
+      transactions
+    }, null, 2);
+  }
+};
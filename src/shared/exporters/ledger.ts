@@ -0,0 +1,228 @@
+/**
+ * Ledger Exporters (hledger, beancount)
+ *
+ * Plain-text accounting journals: every transaction becomes a two-posting
+ * entry between the bank account and the account of its `category`, both
+ * mapped through `LedgerRules`. When the account metadata is known, its
+ * `balance` is emitted as a balance assertion as of the export date, after an
+ * opening balance on the day before the first transaction (from an equity
+ * account) so the assertion also holds for a statement that does not start
+ * at zero.
+ */
+
+import { readFileSync } from 'fs';
+import { moneyToDecimal, negateMoney, subtractMoney, sumMoney, toMoney, transactionAmount } from '../utils/money';
+import { todayInTimezone } from '../utils/date-parser';
+import { groupByAccount, transactionBank, transactionReference } from './helpers';
+import type { AccountGroup, ExportContext, ExportableTransaction, LedgerRules, TransactionExporter } from './types';
+import type { Money } from '../types/base';
+
+const DEFAULT_EXPENSE_ACCOUNT = 'Expenses:Uncategorized';
+const DEFAULT_INCOME_ACCOUNT = 'Income:Uncategorized';
+const DEFAULT_OPENING_BALANCE_ACCOUNT = 'Equity:Opening-Balances';
+
+/**
+ * Read ledger rules from a JSON file
+ */
+export function loadLedgerRules(file: string): LedgerRules {
+  return JSON.parse(readFileSync(file, 'utf-8')) as LedgerRules;
+}
+
+/**
+ * Ledger account of a bank account: from the rules, else "Assets:Bank:<bank>:<last 4 digits>"
+ */
+export function ledgerBankAccount(accountNumber: string, bank: string, rules: LedgerRules = {}): string {
+  const mapped = rules.accounts?.[accountNumber];
+  if (mapped) {
+    return mapped;
+  }
+
+  const digits = accountNumber.replace(/\D/g, '');
+  const suffix = digits.length >= 4 ? digits.substring(digits.length - 4) : accountNumber;
+  return ['Assets', 'Bank', bank || 'Unknown', suffix].map(accountComponent).join(':');
+}
+
+/**
+ * Ledger account of the other side of a transaction, from its category
+ */
+export function ledgerCategoryAccount(transaction: ExportableTransaction, rules: LedgerRules = {}): string {
+  const category = transaction.category;
+  const isDebit = transaction.type === 'debit';
+
+  if (category && rules.categories?.[category]) {
+    return rules.categories[category];
+  }
+
+  if (category) {
+    return [isDebit ? 'Expenses' : 'Income', ...category.split(':')].map(accountComponent).join(':');
+  }
+
+  return isDebit
+    ? rules.defaultExpenseAccount || DEFAULT_EXPENSE_ACCOUNT
+    : rules.defaultIncomeAccount || DEFAULT_INCOME_ACCOUNT;
+}
+
+export const hledgerExporter: TransactionExporter = {
+  format: 'hledger',
+  extension: '.journal',
+  description: 'hledger journal with opening balances and balance assertions',
+
+  export(transactions, context) {
+    const entries: string[] = [];
+
+    for (const group of groupByAccount(transactions, context)) {
+      const bankAccount = groupAccount(group, context);
+      const balance = accountBalance(group);
+
+      // Balance assignment: hledger posts whatever takes the account to the opening balance
+      if (balance) {
+        entries.push([
+          `${openingDate(group)} * Opening balance`,
+          `    ${bankAccount}  = ${formatAmount(openingBalance(group, balance))}`,
+          `    ${openingBalanceAccount(context)}`
+        ].join('\n'));
+      }
+
+      for (const transaction of group.transactions) {
+        const amount = transactionAmount(transaction);
+        const reference = transactionReference(transaction);
+
+        entries.push([
+          `${transaction.date} *${reference ? ` (${reference})` : ''} ${singleLine(transaction.description)}`,
+          `    ; id: ${transaction.id}`,
+          `    ${bankAccount}  ${formatAmount(amount)}`,
+          `    ${ledgerCategoryAccount(transaction, context.ledger)}  ${formatAmount(negateMoney(amount))}`
+        ].join('\n'));
+      }
+
+      if (balance) {
+        entries.push([
+          `${exportDate(context)} * Balance reported by the bank`,
+          `    ${bankAccount}  0 ${balance.currency} = ${formatAmount(balance)}`
+        ].join('\n'));
+      }
+    }
+
+    return entries.join('\n\n') + '\n';
+  }
+};
+
+export const beancountExporter: TransactionExporter = {
+  format: 'beancount',
+  extension: '.beancount',
+  description: 'Beancount ledger with open directives, opening pads and balance assertions',
+
+  export(transactions, context) {
+    const groups = groupByAccount(transactions, context);
+    const entries: string[] = [];
+
+    // Beancount requires accounts to be opened before they are used
+    const opened = new Map<string, string>();
+    const open = (account: string, date: string) => {
+      if (!opened.has(account) || opened.get(account)! > date) {
+        opened.set(account, date);
+      }
+    };
+    for (const group of groups) {
+      const hasBalance = !!accountBalance(group);
+      open(groupAccount(group, context), hasBalance ? openingDate(group) : group.transactions[0].date);
+      if (hasBalance) {
+        open(openingBalanceAccount(context), openingDate(group));
+      }
+      for (const transaction of group.transactions) {
+        open(ledgerCategoryAccount(transaction, context.ledger), transaction.date);
+      }
+    }
+    entries.push([...opened].map(([account, date]) => `${date} open ${account}`).join('\n'));
+
+    for (const group of groups) {
+      const bankAccount = groupAccount(group, context);
+      const balance = accountBalance(group);
+
+      // Beancount fills the difference to the first balance assertion with a pad entry
+      if (balance) {
+        entries.push(`${openingDate(group)} pad ${bankAccount} ${openingBalanceAccount(context)}`);
+      }
+
+      for (const transaction of group.transactions) {
+        const amount = transactionAmount(transaction);
+        const reference = transactionReference(transaction);
+
+        entries.push([
+          `${transaction.date} * ${quote(singleLine(transaction.description))}`,
+          `  id: ${quote(transaction.id || '')}`,
+          ...(reference ? [`  reference: ${quote(reference)}`] : []),
+          `  ${bankAccount}  ${formatAmount(amount)}`,
+          `  ${ledgerCategoryAccount(transaction, context.ledger)}  ${formatAmount(negateMoney(amount))}`
+        ].join('\n'));
+      }
+
+      // Beancount checks balances at the start of the day, so assert on the next one
+      if (balance) {
+        entries.push(`${addDays(exportDate(context), 1)} balance ${bankAccount}  ${formatAmount(balance)}`);
+      }
+    }
+
+    return entries.join('\n\n') + '\n';
+  }
+};
+
+function groupAccount(group: AccountGroup, context: ExportContext): string {
+  return ledgerBankAccount(group.accountNumber, transactionBank(group.transactions[0], context), context.ledger);
+}
+
+function accountBalance(group: AccountGroup): Money | null {
+  if (!group.account) {
+    return null;
+  }
+  return group.account.balanceMoney || toMoney(group.account.balance, group.currency);
+}
+
+// Balance before the exported transactions: the reported balance minus their movements
+function openingBalance(group: AccountGroup, balance: Money): Money {
+  return subtractMoney(balance, sumMoney(group.transactions.map(transactionAmount), balance.currency));
+}
+
+// The day before the account's first exported transaction (groups are oldest first)
+function openingDate(group: AccountGroup): string {
+  return addDays(group.transactions[0].date, -1);
+}
+
+function openingBalanceAccount(context: ExportContext): string {
+  return context.ledger?.openingBalanceAccount || DEFAULT_OPENING_BALANCE_ACCOUNT;
+}
+
+// Balances are as of the scrape, a calendar date of the banks' timezone
+function exportDate(context: ExportContext): string {
+  return todayInTimezone(undefined, context.exportedAt || new Date());
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().substring(0, 10);
+}
+
+function formatAmount(money: Money): string {
+  return `${moneyToDecimal(money)} ${money.currency}`;
+}
+
+// "cuenta corriente" → "Cuenta-corriente": letters, digits and dashes, starting with a capital or digit
+function accountComponent(value: string): string {
+  const component = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .trim()
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return component ? component.charAt(0).toUpperCase() + component.substring(1) : 'Unknown';
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,139 @@
+/**
+ * OFX Exporter
+ *
+ * OFX 1.02 (SGML) bank statement, one statement per account. TRNAMT is signed
+ * (debits negative), FITID is the transaction id so importers skip transactions
+ * they already have, and the ledger/available balances come from the account
+ * metadata when it is provided.
+ */
+
+import { moneyToDecimal, toMoney, transactionAmount } from '../utils/money';
+import { groupByAccount, transactionBank, transactionReference } from './helpers';
+import type { AccountGroup, ExportContext, TransactionExporter } from './types';
+import type { Money } from '../types/base';
+
+const HEADER = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  'SECURITY:NONE',
+  'ENCODING:UTF-8',
+  'CHARSET:NONE',
+  'COMPRESSION:NONE',
+  'OLDFILEUID:NONE',
+  'NEWFILEUID:NONE'
+].join('\r\n');
+
+export const ofxExporter: TransactionExporter = {
+  format: 'ofx',
+  extension: '.ofx',
+  description: 'OFX 1.02 bank statements (Quicken, GnuCash, accounting software)',
+
+  export(transactions, context) {
+    const exportedAt = ofxDateTime((context.exportedAt || new Date()).toISOString());
+    const statements = groupByAccount(transactions, context).map((group, index) =>
+      statement(group, index + 1, exportedAt, context)
+    );
+
+    return [
+      HEADER,
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS>',
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      `<DTSERVER>${exportedAt}`,
+      '<LANGUAGE>SPA',
+      '</SONRS></SIGNONMSGSRSV1>',
+      '<BANKMSGSRSV1>',
+      ...statements,
+      '</BANKMSGSRSV1>',
+      '</OFX>',
+      ''
+    ].join('\r\n');
+  }
+};
+
+function statement(group: AccountGroup, transactionUid: number, exportedAt: string, context: ExportContext): string {
+  const first = group.transactions[0];
+  const last = group.transactions[group.transactions.length - 1];
+  const bank = transactionBank(first, context);
+  const accountType = /ahorro|saving/i.test(group.account?.accountType || '') ? 'SAVINGS' : 'CHECKING';
+
+  const lines = [
+    '<STMTTRNRS>',
+    `<TRNUID>${transactionUid}`,
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${group.currency}`,
+    '<BANKACCTFROM>',
+    `<BANKID>${escape(bankId(group.accountNumber, bank))}`,
+    `<ACCTID>${escape(group.accountNumber)}`,
+    `<ACCTTYPE>${accountType}`,
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(first.date)}`,
+    `<DTEND>${ofxDate(last.date)}`
+  ];
+
+  for (const transaction of group.transactions) {
+    const reference = transactionReference(transaction);
+
+    lines.push(
+      '<STMTTRN>',
+      `<TRNTYPE>${transaction.type === 'debit' ? 'DEBIT' : 'CREDIT'}`,
+      `<DTPOSTED>${transaction.timestamp ? ofxDateTime(transaction.timestamp) : ofxDate(transaction.date)}`,
+      `<TRNAMT>${moneyToDecimal(transactionAmount(transaction))}`,
+      `<FITID>${escape(transaction.id || '')}`,
+      ...(reference ? [`<REFNUM>${escape(reference)}`] : []),
+      `<NAME>${escape(transaction.description.substring(0, 32))}`,
+      ...(transaction.description.length > 32 ? [`<MEMO>${escape(transaction.description)}`] : []),
+      '</STMTTRN>'
+    );
+  }
+
+  lines.push('</BANKTRANLIST>');
+
+  if (group.account) {
+    const balance = group.account.balanceMoney || toMoney(group.account.balance, group.currency);
+    lines.push(...balanceBlock('LEDGERBAL', balance, exportedAt));
+
+    if (group.account.availableBalance !== undefined) {
+      const available = group.account.availableBalanceMoney || toMoney(group.account.availableBalance, group.currency);
+      lines.push(...balanceBlock('AVAILBAL', available, exportedAt));
+    }
+  }
+
+  lines.push('</STMTRS>', '</STMTTRNRS>');
+  return lines.join('\r\n');
+}
+
+function balanceBlock(tag: string, balance: Money, asOf: string): string[] {
+  return [`<${tag}>`, `<BALAMT>${moneyToDecimal(balance)}`, `<DTASOF>${asOf}`, `</${tag}>`];
+}
+
+// Venezuelan account numbers start with the 4-digit bank code (0191 BNC, 0134 Banesco)
+function bankId(accountNumber: string, bank: string): string {
+  return /^\d{4}/.test(accountNumber) ? accountNumber.substring(0, 4) : bank || 'UNKNOWN';
+}
+
+// YYYY-MM-DD → YYYYMMDD
+function ofxDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// ISO 8601 with offset → YYYYMMDDHHMMSS[-4] (offset in hours)
+function ofxDateTime(timestamp: string): string {
+  const match = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(Z|([+-])(\d{2}):(\d{2}))$/);
+  if (!match) {
+    return ofxDate(timestamp.substring(0, 10));
+  }
+
+  const [, year, month, day, hours, minutes, seconds, zone, sign, offsetHours, offsetMinutes] = match;
+  const offset = zone === 'Z' ? 0 : Number(`${sign}1`) * (Number(offsetHours) + Number(offsetMinutes) / 60);
+
+  return `${year}${month}${day}${hours}${minutes}${seconds}[${offset}]`;
+}
+
+function escape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
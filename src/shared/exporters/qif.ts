@@ -0,0 +1,55 @@
+/**
+ * QIF Exporter
+ *
+ * Quicken Interchange Format, one `!Account` block per account followed by
+ * its `!Type:Bank` transactions. Dates are MM/DD/YYYY as Quicken expects and
+ * amounts are signed (debits negative).
+ */
+
+import { moneyToDecimal, transactionAmount } from '../utils/money';
+import { groupByAccount, transactionBank, transactionReference } from './helpers';
+import type { TransactionExporter } from './types';
+
+export const qifExporter: TransactionExporter = {
+  format: 'qif',
+  extension: '.qif',
+  description: 'Quicken Interchange Format (MM/DD/YYYY dates)',
+
+  export(transactions, context) {
+    const lines: string[] = [];
+
+    for (const group of groupByAccount(transactions, context)) {
+      const bank = transactionBank(group.transactions[0], context);
+
+      lines.push(
+        '!Account',
+        `N${[bank, group.accountNumber].filter(Boolean).join(' ')}`,
+        'TBank',
+        `D${group.currency}`,
+        '^',
+        '!Type:Bank'
+      );
+
+      for (const transaction of group.transactions) {
+        const [year, month, day] = transaction.date.split('-');
+        const reference = transactionReference(transaction);
+
+        lines.push(
+          `D${month}/${day}/${year}`,
+          `T${moneyToDecimal(transactionAmount(transaction))}`,
+          ...(reference ? [`N${reference}`] : []),
+          `P${singleLine(transaction.description)}`,
+          ...(transaction.category ? [`L${singleLine(transaction.category)}`] : []),
+          '^'
+        );
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+};
+
+// QIF fields are one line each
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,40 @@
+/**
+ * Exporter Types
+ */
+
+import type { BankAccount } from '../types/base';
+import type { IdentifiableTransaction } from '../utils/transaction-identity';
+
+export type ExportableTransaction = IdentifiableTransaction;
+
+// What an exporter knows besides the transactions
+export interface ExportContext {
+  bankName?: string;        // Used when transactions have no `bankName`
+  accounts?: BankAccount[]; // Account metadata (type, currency, balance) matched by account number
+  exportedAt?: Date;        // Default: now
+  ledger?: LedgerRules;     // Account mapping for the hledger/beancount exporters
+}
+
+// Maps bank accounts and categories to plain-text accounting accounts
+export interface LedgerRules {
+  accounts?: Record<string, string>;    // Account number → ledger account, e.g. "Assets:Bank:BNC:Corriente"
+  categories?: Record<string, string>;  // Transaction category → ledger account, e.g. "Expenses:Food"
+  defaultExpenseAccount?: string;       // Uncategorized debits, default: "Expenses:Uncategorized"
+  defaultIncomeAccount?: string;        // Uncategorized credits, default: "Income:Uncategorized"
+  openingBalanceAccount?: string;       // Other side of opening balances, default: "Equity:Opening-Balances"
+}
+
+export interface TransactionExporter {
+  format: string;        // Registry key, e.g. 'csv'
+  extension: string;     // File extension including the dot, e.g. '.csv'
+  description: string;
+  export(transactions: ExportableTransaction[], context: ExportContext): string;
+}
+
+// Transactions of one account with the account metadata found for it
+export interface AccountGroup {
+  accountNumber: string;
+  account?: BankAccount;
+  currency: string;
+  transactions: ExportableTransaction[];
+}
@@ -4,13 +4,110 @@
 export { BaseBankAuth } from './base-bank-auth';
 export { BaseBankScraper } from './base-bank-scraper';
 
+// Bank registry (createBankClient and listBanks come from src/banks, which registers the adapters)
+export { registerBank } from './bank-registry';
+export type { BankAdapter, BankClientOptions } from './bank-registry';
+
+// Exact money arithmetic
+export {
+  toMoney,
+  decimalToCents,
+  moneyFromCents,
+  zeroMoney,
+  addMoney,
+  subtractMoney,
+  negateMoney,
+  sumMoney,
+  moneyEquals,
+  moneyToDecimal,
+  moneyToNumber,
+  formatMoney,
+  transactionAmount,
+  withTransactionMoney,
+  withTransactionCents,
+  withAccountMoney,
+  CurrencyMismatchError
+} from './utils/money';
+
+// Amount parsing (Venezuelan and US notation)
+export { parseAmount, tryParseAmount, amountFormatForLocale, AmountParseError } from './utils/amount-parser';
+export type { AmountFormat, AmountParseOptions, ParsedAmount } from './utils/amount-parser';
+
+// Date parsing (bank timezone aware)
+export { parseBankDate, tryParseBankDate, todayInTimezone, DateParseError, DEFAULT_BANK_TIMEZONE } from './utils/date-parser';
+export type { ParsedDate, DateParseOptions } from './utils/date-parser';
+
+// Transaction identity and deduplication
+export {
+  transactionKey,
+  transactionFingerprint,
+  assignTransactionIds,
+  dedupeTransactions,
+  mergeTransactions
+} from './utils/transaction-identity';
+export type { IdentifiableTransaction, MergeResult } from './utils/transaction-identity';
+
+// Local transaction store (incremental sync)
+export { TransactionStore } from './utils/transaction-store';
+export type { SyncCursor, SyncResult } from './utils/transaction-store';
+
+// Channel and counterparty from descriptions
+export { parseTransactionDescription, withDescriptionDetails, VENEZUELAN_BANK_CODES } from './utils/description-parser';
+export type { DescriptionDetails } from './utils/description-parser';
+
+// Balance continuity checks
+export { validateBalanceContinuity } from './utils/balance-validator';
+export type { BalanceCheck, BalanceIssue, BalanceIssueKind, AccountBalanceCheck, StatementSummary } from './utils/balance-validator';
+
+// Rule-based categorization
+export { TransactionCategorizer, loadCategoryRules, resolveCategoryRules, CategoryRuleError } from './utils/categorizer';
+export type { CategoryRule, CategorizableTransaction, CategorizationResult, CategorizeOptions } from './utils/categorizer';
+
+// Transaction exporters (json, csv, ofx, qif, hledger, beancount)
+export {
+  registerExporter,
+  getExporter,
+  listExporters,
+  formatFromFilename,
+  exportTransactionsAs,
+  loadLedgerRules
+} from './exporters';
+export type { TransactionExporter, ExportContext, ExportableTransaction, LedgerRules } from './exporters';
+
+// Saved browser sessions (encrypted, pluggable storage)
+export { SessionManager } from './utils/session-manager';
+export type { SessionData, SessionManagerOptions } from './utils/session-manager';
+export {
+  FileSessionStore,
+  MemorySessionStore,
+  KeyValueSessionStore,
+  MemoryKeyValueClient
+} from './utils/session-store';
+export type { SessionStore, KeyValueClient } from './utils/session-store';
+export { SessionKeyUnavailableError, SessionDecryptionError, SESSION_KEY_ENV } from './utils/session-crypto';
+export { SessionKeepAlive, SessionExpiredError } from './utils/session-keep-alive';
+export type {
+  SessionKeepAliveOptions,
+  SessionStatus,
+  SessionState,
+  SessionExpiryReason,
+  SessionPingEvent,
+  SessionExpiringEvent,
+  SessionExpiredEvent
+} from './utils/session-keep-alive';
+
+// Offline replay
+export { FixtureServer } from './utils/fixture-server';
+export type { ReplayFixture, FixtureManifestEntry } from './utils/fixture-server';
+
 // Base types
 export type {
   BaseBankAuthConfig,
   BaseBankLoginResult,
   BaseBankCredentials,
   BaseBankScrapingConfig,
-  BaseBankScrapingResult
+  BaseBankScrapingResult,
+  ReplayConfig
 } from './types';
 
 // Re-export all shared types for convenience
@@ -7,6 +7,12 @@ export interface BankCredentials {
   additionalFields?: Record<string, string>;
 }
 
+// Exact amount: integer minor units plus ISO 4217 currency code
+export interface Money {
+  cents: number;           // Integer, negative for debits and overdrafts
+  currency: string;        // 'VES', 'USD', 'EUR'
+}
+
 export interface BankAccount {
   accountNumber: string;
   accountType: string;
@@ -16,17 +22,48 @@ export interface BankAccount {
   bankName?: string;
   accountName?: string;
   availableBalance?: number;
+  balanceMoney?: Money;            // Exact `balance`
+  availableBalanceMoney?: Money;   // Exact `availableBalance`
 }
 
 export interface BankTransaction {
   id?: string;
-  date: string;
+  date: string;            // YYYY-MM-DD in the bank's timezone
+  timestamp?: string;      // ISO 8601 with the bank's UTC offset (includes the time when shown)
   description: string;
-  amount: number;
+  amount: number;          // Absolute value, sign given by `type`
   type: 'debit' | 'credit';
   balance: number;
+  currency: string;        // ISO 4217 code of the account
+  amountMoney?: Money;     // Exact signed amount (credits positive, debits negative)
+  balanceMoney?: Money;    // Exact `balance`
   reference?: string;
   category?: string;
+  channel?: TransactionChannel;          // From the description (see parseTransactionDescription)
+  counterparty?: TransactionCounterparty;
+  feeType?: FeeType;                     // Set for commissions and taxes charged by the bank
+}
+
+export type TransactionChannel =
+  | 'pago-movil'
+  | 'transfer'
+  | 'debit-card'
+  | 'credit-card'
+  | 'deposit'
+  | 'withdrawal'
+  | 'fee'
+  | 'other';
+
+export type FeeType = 'commission' | 'iva' | 'igtf' | 'islr';
+
+// Other party of a transaction, as far as the description shows it
+export interface TransactionCounterparty {
+  name?: string;
+  id?: string;         // Cédula or RIF, normalized: "V12345678", "J123456789"
+  phone?: string;      // Mobile number, normalized: "04141234567"
+  bankCode?: string;   // 4-digit bank code, e.g. "0102"
+  bankName?: string;
+  account?: string;    // 20-digit account number
 }
 
 export interface LoginResult {
@@ -70,10 +107,19 @@ export interface BankConfig {
   supportedFeatures: string[];
   locale?: string;
   timezone?: string;
+  session?: BankSessionPolicy;
+}
+
+// How long the bank keeps an authenticated session alive (see SessionKeepAlive)
+export interface BankSessionPolicy {
+  idleTimeoutMinutes: number;   // The bank logs out after this long without requests
+  maxLifetimeMinutes: number;   // Hard limit after login; keep-alive pings cannot extend it
+  keepAliveUrl: string;         // Harmless authenticated page to request before the idle timeout
 }
 
 export enum SupportedBanks {
   BANESCO = 'banesco',
+  BNC = 'bnc',
   // Future banks can be added here
   // BOD = 'bod',
   // MERCANTIL = 'mercantil'
@@ -3,6 +3,8 @@
  */
 
 import { PERFORMANCE_PRESETS } from '../performance-config';
+import type { CategoryRule } from '../utils/categorizer';
+import type { AmountFormat } from '../utils/amount-parser';
 
 // Shared types for all bank implementations
 export * from './base';
@@ -41,6 +43,7 @@ export interface BaseBankLoginResult {
   success: boolean;
   message: string;
   sessionValid: boolean;
+  sessionRestored?: boolean;  // True when a saved session was reused instead of logging in
   error?: string;
 }
 
@@ -57,6 +60,15 @@ export interface BaseBankScrapingConfig {
   waitBetweenActions?: number;  // Default: 1000ms
   retries?: number;        // Default: 3
   saveHtml?: boolean;      // Default: false
+  replay?: ReplayConfig;   // Default: undefined (scrape the live site)
+  categoryRules?: string | CategoryRule[];  // Rules file (JSON/YAML) or rules that set `category`
+  amountFormat?: AmountFormat;  // Default: the notation of the bank's locale (BankConfig.locale)
+}
+
+// Offline replay of saved HTML captures
+export interface ReplayConfig {
+  fixturesDir: string;     // Directory with saved HTML captures
+  fixtures?: string[];     // Optional subset/order of files to replay
 }
 
 // Base scraping result interface
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AmountParseError, amountFormatForLocale, parseAmount, tryParseAmount } from '../amount-parser';
+
+describe('parseAmount', () => {
+  it('reads Venezuelan and US notation', () => {
+    assert.equal(parseAmount('1.234,56').cents, 123456);
+    assert.equal(parseAmount('1,234.56').cents, 123456);
+    assert.equal(parseAmount('1.234.567,8').cents, 123456780);
+    assert.equal(parseAmount('0,50').value, 0.5);
+  });
+
+  it('reads the three ways banks write negatives', () => {
+    assert.equal(parseAmount('-1.234,00').cents, -123400);
+    assert.equal(parseAmount('1.234,00-').cents, -123400);
+    assert.equal(parseAmount('(1.234,00)').cents, -123400);
+  });
+
+  it('detects currency markers', () => {
+    assert.equal(parseAmount('Bs. 1.234,56').currency, 'VES');
+    assert.equal(parseAmount('Bs.S 10,00').currency, 'VES');
+    assert.equal(parseAmount('1.234,56 VES').currency, 'VES');
+    assert.equal(parseAmount('$ 10.50').currency, 'USD');
+    assert.equal(parseAmount('USD 1.000,00').currency, 'USD');
+    assert.equal(parseAmount('€ 3,00').currency, 'EUR');
+    assert.equal(parseAmount('1.234,56').currency, null);
+  });
+
+  it('uses the bank format only for values that read both ways', () => {
+    assert.throws(() => parseAmount('1.234'), (error: AmountParseError) => error.reason === 'ambiguous');
+    assert.equal(parseAmount('1.234', { format: 'es-VE' }).cents, 123400);
+    assert.equal(parseAmount('1.234', { format: 'en-US' }).cents, 123);
+    assert.equal(parseAmount('1,50', { format: 'en-US' }).cents, 150);
+  });
+
+  it('never turns unreadable values into zero', () => {
+    for (const value of ['', '   ', '--', 'N/D', '1.2.3,4,5', '12,', 'abc']) {
+      assert.throws(() => parseAmount(value), AmountParseError, value);
+    }
+  });
+
+  it('does not return negative zero', () => {
+    assert.ok(Object.is(parseAmount('-0,00').cents, 0));
+  });
+});
+
+describe('tryParseAmount', () => {
+  it('returns null for unreadable values', () => {
+    assert.equal(tryParseAmount('N/D'), null);
+    assert.equal(tryParseAmount('--'), null);
+    assert.equal(tryParseAmount('10,00')?.cents, 1000);
+  });
+});
+
+describe('amountFormatForLocale', () => {
+  it('maps a locale to the notation of its decimal separator', () => {
+    assert.equal(amountFormatForLocale('es-VE'), 'es-VE');
+    assert.equal(amountFormatForLocale('en-US'), 'en-US');
+    assert.equal(amountFormatForLocale('es-MX'), 'en-US');
+  });
+});
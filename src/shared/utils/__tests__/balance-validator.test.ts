@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateBalanceContinuity } from '../balance-validator';
+import type { IdentifiableTransaction } from '../transaction-identity';
+
+function movement(date: string, amount: number, balance: number, overrides: Partial<IdentifiableTransaction> = {}): IdentifiableTransaction {
+  return {
+    date,
+    description: `MOV ${date}`,
+    amount: Math.abs(amount),
+    type: amount < 0 ? 'debit' : 'credit',
+    balance,
+    currency: 'VES',
+    accountNumber: '0134-1',
+    ...overrides
+  };
+}
+
+describe('validateBalanceContinuity', () => {
+  const ascending = [
+    movement('2025-01-01', 100, 1100),
+    movement('2025-01-02', -50.25, 1049.75),
+    movement('2025-01-03', 0.25, 1050)
+  ];
+
+  it('accepts consistent running balances in either order', () => {
+    const forward = validateBalanceContinuity(ascending);
+    assert.equal(forward.valid, true);
+    assert.equal(forward.accounts[0].order, 'ascending');
+
+    const backward = validateBalanceContinuity([...ascending].reverse());
+    assert.equal(backward.valid, true);
+    assert.equal(backward.accounts[0].order, 'descending');
+  });
+
+  it('reports a gap where a movement is missing', () => {
+    const check = validateBalanceContinuity([ascending[0], ascending[2]]);
+
+    assert.equal(check.valid, false);
+    assert.deepEqual(
+      check.issues.map(({ kind, expected, actual, difference }) => ({ kind, expected, actual, difference })),
+      [{ kind: 'balance-gap', expected: '1100.25', actual: '1050.00', difference: '-50.25' }]
+    );
+  });
+
+  it('checks the statement summary', () => {
+    assert.equal(validateBalanceContinuity(ascending, { previousBalance: 1000, currentBalance: 1050 }).valid, true);
+
+    const kinds = validateBalanceContinuity(ascending, { previousBalance: 900, currentBalance: 1060 }).issues.map(({ kind }) => kind);
+    assert.deepEqual(kinds.sort(), ['closing-balance', 'opening-balance', 'summary-total']);
+  });
+
+  it('applies the summary to its account only', () => {
+    const other = movement('2025-01-01', 5, 0, { accountNumber: '0134-2' });
+    const check = validateBalanceContinuity([...ascending, other], { accountNumber: '0134-1', previousBalance: 1000, currentBalance: 1050 });
+
+    assert.equal(check.valid, true);
+    assert.deepEqual(check.accounts.map(({ account, summaryChecked }) => [account, summaryChecked]), [['0134-1', true], ['0134-2', false]]);
+  });
+
+  it('skips running balance checks when the bank reports none', () => {
+    const check = validateBalanceContinuity([movement('2025-01-01', 10, 0), movement('2025-01-02', -3, 0)], { previousBalance: 0, currentBalance: 7 });
+
+    assert.equal(check.valid, true);
+    assert.equal(check.accounts[0].runningBalance, false);
+    assert.equal(check.accounts[0].summaryChecked, true);
+  });
+});
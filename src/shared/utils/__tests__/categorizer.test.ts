@@ -0,0 +1,91 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CategoryRuleError, TransactionCategorizer, loadCategoryRules, resolveCategoryRules } from '../categorizer';
+import type { CategorizableTransaction } from '../categorizer';
+
+function transaction(overrides: Partial<CategorizableTransaction> = {}): CategorizableTransaction {
+  return {
+    date: '2025-01-15',
+    description: 'COMPRA PANADERIA LA ESPIGA',
+    amount: 250,
+    type: 'debit',
+    balance: 0,
+    currency: 'VES',
+    ...overrides
+  };
+}
+
+describe('TransactionCategorizer', () => {
+  it('uses the first rule whose conditions all match', () => {
+    const categorizer = new TransactionCategorizer([
+      { category: 'Comida:Grande', description: 'panaderia', minAmount: 1000 },
+      { category: 'Comida', description: 'panaderia|restaurant', type: 'debit', maxAmount: 500 },
+      { category: 'Otros', description: '.' }
+    ]);
+
+    assert.equal(categorizer.match(transaction()), 'Comida');
+    assert.equal(categorizer.match(transaction({ amount: 1500 })), 'Comida:Grande');
+    assert.equal(categorizer.match(transaction({ amount: 700 })), 'Otros');
+  });
+
+  it('matches channel, counterparty, currency and account', () => {
+    const categorizer = new TransactionCategorizer([
+      { category: 'Familia', channel: 'pago-movil', counterparty: 'V12345678' },
+      { category: 'Divisas', currency: 'usd', account: '0134-1' }
+    ]);
+
+    assert.equal(categorizer.match(transaction({ channel: 'pago-movil', counterparty: { id: 'V12345678' } })), 'Familia');
+    assert.equal(categorizer.match(transaction({ currency: 'USD', accountNumber: '0134-1' })), 'Divisas');
+    assert.equal(categorizer.match(transaction({ currency: 'USD' })), null);
+  });
+
+  it('keeps existing categories unless asked to overwrite', () => {
+    const categorizer = new TransactionCategorizer([{ category: 'Comida', description: 'panaderia' }]);
+    const transactions = [transaction({ category: 'Manual' }), transaction(), transaction({ description: 'OTRO' })];
+
+    const result = categorizer.categorize(transactions);
+    assert.deepEqual(result.transactions.map(({ category }) => category), ['Manual', 'Comida', undefined]);
+    assert.equal(result.categorized, 1);
+    assert.equal(result.uncategorized.length, 1);
+
+    assert.equal(categorizer.categorize(transactions, { overwrite: true }).transactions[0].category, 'Comida');
+  });
+
+  it('rejects invalid rules with their position', () => {
+    assert.throws(() => new TransactionCategorizer([{ category: '' }]), CategoryRuleError);
+    assert.throws(
+      () => new TransactionCategorizer([{ category: 'A' }, { category: 'B', description: '(' }]),
+      (error: CategoryRuleError) => error.ruleIndex === 1
+    );
+    assert.throws(() => new TransactionCategorizer([{ category: 'A', type: 'other' as 'debit' }]), CategoryRuleError);
+  });
+});
+
+describe('loadCategoryRules', () => {
+  let directory: string;
+
+  before(() => { directory = mkdtempSync(join(tmpdir(), 'banker-rules-')); });
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('reads JSON lists and YAML `rules` documents', () => {
+    writeFileSync(join(directory, 'rules.json'), JSON.stringify([{ category: 'Comida', description: 'panaderia' }]));
+    writeFileSync(join(directory, 'rules.yaml'), 'rules:\n  - category: Sueldo\n    type: credit\n');
+
+    assert.equal(loadCategoryRules(join(directory, 'rules.json'))[0].category, 'Comida');
+    assert.equal(loadCategoryRules(join(directory, 'rules.yaml'))[0].type, 'credit');
+  });
+
+  it('fails on files without rules', () => {
+    writeFileSync(join(directory, 'empty.json'), '{}');
+    assert.throws(() => loadCategoryRules(join(directory, 'empty.json')), /No category rules/);
+  });
+
+  it('resolves the categoryRules option up front', () => {
+    assert.equal(resolveCategoryRules(join(directory, 'rules.json'))[0].category, 'Comida');
+    assert.throws(() => resolveCategoryRules(join(directory, 'missing.yaml')), /ENOENT/);
+    assert.throws(() => resolveCategoryRules([{ category: 'A', maxAmount: 'x' as unknown as number }]), CategoryRuleError);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DateParseError, parseBankDate, todayInTimezone, tryParseBankDate } from '../date-parser';
+
+describe('parseBankDate', () => {
+  it('reads numeric dates', () => {
+    assert.equal(parseBankDate('15/01/2025').date, '2025-01-15');
+    assert.equal(parseBankDate('15-01-25').date, '2025-01-15');
+    assert.equal(parseBankDate('2025-01-15').date, '2025-01-15');
+    assert.equal(parseBankDate('15.01.1999').date, '1999-01-15');
+  });
+
+  it('reads Spanish month names', () => {
+    assert.equal(parseBankDate('15 ene 2025').date, '2025-01-15');
+    assert.equal(parseBankDate('15-Ene.-25').date, '2025-01-15');
+    assert.equal(parseBankDate('5 de septiembre de 2024').date, '2024-09-05');
+    assert.equal(parseBankDate('01 dic 2024').date, '2024-12-01');
+  });
+
+  it('expands two-digit years around the pivot', () => {
+    assert.equal(parseBankDate('01/01/69').date, '2069-01-01');
+    assert.equal(parseBankDate('01/01/70').date, '1970-01-01');
+    assert.equal(parseBankDate('01/01/80', { twoDigitYearPivot: 90 }).date, '2080-01-01');
+  });
+
+  it('keeps the time and the Caracas offset', () => {
+    const parsed = parseBankDate('15/01/2025 02:30 p.m.');
+    assert.equal(parsed.time, '14:30:00');
+    assert.equal(parsed.timestamp, '2025-01-15T14:30:00-04:00');
+    assert.equal(parseBankDate('15/01/2025').timestamp, '2025-01-15T00:00:00-04:00');
+  });
+
+  it('rejects values that are not calendar dates', () => {
+    assert.throws(() => parseBankDate('31/02/2025'), (error: DateParseError) => error.reason === 'invalid');
+    assert.throws(() => parseBankDate('2025-13-01'), (error: DateParseError) => error.reason === 'invalid');
+    assert.throws(() => parseBankDate('ayer'), (error: DateParseError) => error.reason === 'unrecognized');
+    assert.throws(() => parseBankDate(' '), (error: DateParseError) => error.reason === 'empty');
+  });
+
+  it('accepts leap days only in leap years', () => {
+    assert.equal(parseBankDate('29/02/2024').date, '2024-02-29');
+    assert.throws(() => parseBankDate('29/02/2025'), DateParseError);
+  });
+});
+
+describe('tryParseBankDate', () => {
+  it('returns null for unreadable dates', () => {
+    assert.equal(tryParseBankDate('N/D'), null);
+    assert.equal(tryParseBankDate('15/01/2025')?.date, '2025-01-15');
+  });
+});
+
+describe('todayInTimezone', () => {
+  it('uses the calendar date of the timezone', () => {
+    // 02:00 UTC is still the previous day in Caracas (UTC-4)
+    const now = new Date('2025-01-16T02:00:00Z');
+    assert.equal(todayInTimezone('America/Caracas', now), '2025-01-15');
+    assert.equal(todayInTimezone('UTC', now), '2025-01-16');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTransactionDescription, withDescriptionDetails } from '../description-parser';
+import type { BankTransaction } from '../../types/base';
+
+describe('parseTransactionDescription', () => {
+  it('reads Pago Móvil phone, id and bank code', () => {
+    assert.deepEqual(parseTransactionDescription('PAGO MOVIL RECIBIDO 0102 04141234567 V-12.345.678'), {
+      channel: 'pago-movil',
+      counterparty: {
+        phone: '04141234567',
+        id: 'V12345678',
+        bankCode: '0102',
+        bankName: 'Banco de Venezuela'
+      }
+    });
+  });
+
+  it('reads the bank code of a 20-digit account', () => {
+    const details = parseTransactionDescription('TRANSF. A TERCEROS 0105-0000-00-0000000001');
+    assert.equal(details.channel, 'transfer');
+    assert.equal(details.counterparty?.account, '01050000000000000001');
+    assert.equal(details.counterparty?.bankName, 'Mercantil');
+  });
+
+  it('reads counterparty names and skips keywords', () => {
+    assert.equal(parseTransactionDescription('TRANSF. RECIBIDA DE JUAN PEREZ').counterparty?.name, 'JUAN PEREZ');
+    assert.equal(parseTransactionDescription('TRANSFERENCIA A TERCEROS OTROS BANCOS').counterparty, undefined);
+  });
+
+  it('classifies fees and taxes before the channel', () => {
+    assert.deepEqual(parseTransactionDescription('COMISION PAGO MOVIL'), { channel: 'fee', feeType: 'commission' });
+    assert.equal(parseTransactionDescription('COBRO IGTF 3%').feeType, 'igtf');
+    assert.equal(parseTransactionDescription('IVA S/COMISION').feeType, 'iva');
+  });
+
+  it('uses the bank transaction type and accents do not matter', () => {
+    assert.equal(parseTransactionDescription('REF 1234', 'Pago Móvil').channel, 'pago-movil');
+    assert.equal(parseTransactionDescription('DEPÓSITO EN EFECTIVO').channel, 'deposit');
+    assert.equal(parseTransactionDescription('COMPRA TDD FARMACIA').channel, 'debit-card');
+    assert.equal(parseTransactionDescription('RETIRO CAJERO').channel, 'withdrawal');
+    assert.equal(parseTransactionDescription('MOVIMIENTO').channel, 'other');
+  });
+
+  it('normalizes +58 phones and RIFs', () => {
+    const details = parseTransactionDescription('PAGO MOVIL +58 424 555 1234 J-12345678-9');
+    assert.equal(details.counterparty?.phone, '04245551234');
+    assert.equal(details.counterparty?.id, 'J123456789');
+  });
+});
+
+describe('withDescriptionDetails', () => {
+  it('sets the parsed fields on the transaction', () => {
+    const transaction = withDescriptionDetails<BankTransaction>({
+      date: '2025-01-15',
+      description: 'PAGO MOVIL ENVIADO 04121234567',
+      amount: 10,
+      type: 'debit',
+      balance: 0,
+      currency: 'VES'
+    });
+
+    assert.equal(transaction.channel, 'pago-movil');
+    assert.equal(transaction.counterparty?.phone, '04121234567');
+    assert.equal(transaction.amount, 10);
+  });
+});
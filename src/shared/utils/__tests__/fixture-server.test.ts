@@ -0,0 +1,66 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { get } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureServer } from '../fixture-server';
+
+function request(url: string): Promise<{ status: number; contentType: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    get(url, response => {
+      let body = '';
+      response.setEncoding('utf-8');
+      response.on('data', chunk => { body += chunk; });
+      response.on('end', () => resolve({
+        status: response.statusCode ?? 0,
+        contentType: response.headers['content-type'] || '',
+        body
+      }));
+    }).on('error', reject);
+  });
+}
+
+describe('FixtureServer', () => {
+  let directory: string;
+  let server: FixtureServer;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'banker-fixtures-'));
+    writeFileSync(join(directory, 'bnc-usd.html'), '<html><body>USD</body></html>');
+    writeFileSync(join(directory, 'bnc-ves.html'), '<html><body>VES</body></html>');
+    server = new FixtureServer(directory);
+  });
+  afterEach(async () => {
+    await server.stop();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('labels fixtures from the manifest, as a string or an account', async () => {
+    writeFileSync(join(directory, 'manifest.json'), JSON.stringify({
+      'bnc-ves.html': 'BNC VES 1109',
+      'bnc-usd.html': { label: 'BNC 2207', currency: 'usd', accountNumber: '0191-2207' }
+    }));
+    await server.start();
+
+    const [usd, ves] = server.listFixtures();
+    assert.deepEqual(
+      { label: usd.label, currency: usd.currency, accountNumber: usd.accountNumber },
+      { label: 'BNC 2207', currency: 'USD', accountNumber: '0191-2207' }
+    );
+    assert.equal(ves.label, 'BNC VES 1109');
+    assert.equal(ves.currency, undefined);
+  });
+
+  it('serves the captures, labelled by file name without a manifest', async () => {
+    await server.start();
+    const [fixture] = server.listFixtures(['bnc-ves.html']);
+
+    assert.equal(fixture.label, 'bnc-ves');
+    const response = await request(fixture.url);
+    assert.equal(response.status, 200);
+    assert.match(response.contentType, /text\/html/);
+    assert.equal(response.body, '<html><body>VES</body></html>');
+    assert.equal((await request(`${server.getBaseUrl()}/fixtures/missing.html`)).status, 404);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CurrencyMismatchError,
+  addMoney,
+  moneyToDecimal,
+  sumMoney,
+  toMoney,
+  transactionAmount,
+  withAccountMoney,
+  withTransactionMoney,
+  withTransactionCents
+} from '../money';
+import type { BankAccount, BankTransaction } from '../../types/base';
+
+describe('money', () => {
+  it('converts decimals to exact cents', () => {
+    assert.equal(toMoney('1234.56', 'VES').cents, 123456);
+    assert.equal(toMoney('-0.5', 'VES').cents, -50);
+    assert.equal(toMoney('1.005', 'VES').cents, 101);
+    assert.throws(() => toMoney('1,5', 'VES'));
+  });
+
+  it('adds without float drift', () => {
+    const total = sumMoney([toMoney(0.1, 'VES'), toMoney(0.2, 'VES')], 'VES');
+    assert.equal(total.cents, 30);
+    assert.equal(moneyToDecimal(total), '0.30');
+    assert.equal(moneyToDecimal(toMoney('-1234.5', 'VES')), '-1234.50');
+  });
+
+  it('refuses to mix currencies', () => {
+    assert.throws(() => addMoney(toMoney(1, 'VES'), toMoney(1, 'USD')), CurrencyMismatchError);
+  });
+
+  it('signs transaction amounts by type', () => {
+    const debit = withTransactionMoney<BankTransaction>({ date: '2025-01-15', description: 'x', amount: 12.5, type: 'debit', balance: 100, currency: 'VES' });
+    assert.deepEqual(debit.amountMoney, { cents: -1250, currency: 'VES' });
+    assert.deepEqual(debit.balanceMoney, { cents: 10000, currency: 'VES' });
+    assert.equal(transactionAmount({ ...debit, amountMoney: undefined, type: 'credit' }).cents, 1250);
+  });
+
+  it('builds transaction amounts from parsed cents', () => {
+    const debit = withTransactionCents<BankTransaction>({ date: '2025-01-15', description: 'x', amount: 0, type: 'debit', balance: 0, currency: 'ves' }, -1234567890123, 1000000000001);
+    assert.deepEqual(debit.amountMoney, { cents: -1234567890123, currency: 'VES' });
+    assert.deepEqual(debit.balanceMoney, { cents: 1000000000001, currency: 'VES' });
+    assert.equal(debit.amount, 12345678901.23);
+    assert.equal(debit.currency, 'VES');
+  });
+
+  it('sets exact account balances', () => {
+    const account = withAccountMoney<BankAccount>({ accountNumber: '1', accountType: 'ahorro', balance: 10, availableBalance: 7.5, currency: 'usd', status: 'active' });
+    assert.deepEqual(account.balanceMoney, { cents: 1000, currency: 'USD' });
+    assert.deepEqual(account.availableBalanceMoney, { cents: 750, currency: 'USD' });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SESSION_KEY_ENV,
+  SessionDecryptionError,
+  decryptSession,
+  encryptSession,
+  isEncryptedSession,
+  resolveSessionSecret
+} from '../session-crypto';
+
+const SECRET = 'test-secret-with-enough-length';
+
+describe('session encryption', () => {
+  it('round-trips a session for its id', async () => {
+    const envelope = await encryptSession('{"cookies":[]}', SECRET, 'bnc_abc');
+
+    assert.equal(isEncryptedSession(envelope), true);
+    assert.doesNotMatch(JSON.stringify(envelope), /cookies/);
+    assert.equal(await decryptSession(envelope, SECRET, 'bnc_abc'), '{"cookies":[]}');
+  });
+
+  it('uses a fresh salt and iv every time', async () => {
+    const [a, b] = await Promise.all([encryptSession('same', SECRET, 'id'), encryptSession('same', SECRET, 'id')]);
+    assert.notEqual(a.salt, b.salt);
+    assert.notEqual(a.iv, b.iv);
+    assert.notEqual(a.data, b.data);
+  });
+
+  it('fails for another id, another key or modified data', async () => {
+    const envelope = await encryptSession('{"cookies":[]}', SECRET, 'bnc_abc');
+    const tampered = (promise: Promise<string>) =>
+      assert.rejects(promise, (error: SessionDecryptionError) => error.reason === 'tampered');
+
+    await tampered(decryptSession(envelope, SECRET, 'bnc_other'));
+    await tampered(decryptSession(envelope, 'another-secret-of-enough-length', 'bnc_abc'));
+    await tampered(decryptSession({ ...envelope, data: Buffer.from('x').toString('base64') }, SECRET, 'bnc_abc'));
+  });
+
+  it('reports plaintext and unsupported files', async () => {
+    await assert.rejects(
+      decryptSession({ cookies: [], timestamp: 1 }, SECRET, 'id'),
+      (error: SessionDecryptionError) => error.reason === 'not-encrypted'
+    );
+
+    const envelope = await encryptSession('x', SECRET, 'id');
+    await assert.rejects(
+      decryptSession({ ...envelope, version: 2 }, SECRET, 'id'),
+      (error: SessionDecryptionError) => error.reason === 'unsupported'
+    );
+  });
+});
+
+describe('resolveSessionSecret', () => {
+  it('takes the key from the environment and rejects short ones', () => {
+    assert.equal(resolveSessionSecret({ [SESSION_KEY_ENV]: ` ${SECRET} ` }), SECRET);
+    assert.equal(resolveSessionSecret({ [SESSION_KEY_ENV]: 'short' }), null);
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { SessionExpiredError, SessionKeepAlive } from '../session-keep-alive';
+import type {
+  SessionExpiredEvent,
+  SessionExpiringEvent,
+  SessionKeepAliveOptions,
+  SessionPingEvent
+} from '../session-keep-alive';
+import type { BankConfig, BankSessionPolicy } from '../../types/base';
+
+const LOGIN_URL = 'https://bank.example/Login';
+const KEEP_ALIVE_URL = 'https://bank.example/Home';
+const MS = 1 / 60000; // One millisecond in minutes
+
+type FakeResponse = { url: string; status: number } | Error;
+
+// Page double: records the navigation listener and answers keep-alive requests
+function fakePage(respond: () => FakeResponse = () => ({ url: KEEP_ALIVE_URL, status: 200 })) {
+  const listeners = new Set<() => void>();
+  const requests: string[] = [];
+
+  const page = {
+    on: (event: string, listener: () => void) => { if (event === 'framenavigated') listeners.add(listener); },
+    off: (event: string, listener: () => void) => { if (event === 'framenavigated') listeners.delete(listener); },
+    context: () => ({
+      request: {
+        get: async (url: string) => {
+          requests.push(url);
+          const response = respond();
+          if (response instanceof Error) throw response;
+          return { url: () => response.url, status: () => response.status };
+        }
+      }
+    })
+  };
+
+  return {
+    page: page as unknown as Page,
+    requests,
+    listeners,
+    navigate: () => listeners.forEach(listener => listener())
+  };
+}
+
+function bank(session: Partial<BankSessionPolicy> = {}): BankConfig {
+  return {
+    name: 'Test Bank',
+    code: 'test',
+    baseUrl: 'https://bank.example',
+    loginUrl: LOGIN_URL,
+    supportedFeatures: [],
+    session: { idleTimeoutMinutes: 10, maxLifetimeMinutes: 60, keepAliveUrl: KEEP_ALIVE_URL, ...session }
+  };
+}
+
+// The keep-alive timer is unref'd, so waiting on its events needs a timer of its own
+function within<T>(promise: Promise<T>, ms = 2000): Promise<T> {
+  let timeout: NodeJS.Timeout;
+  const timer = new Promise<never>((_, reject) => {
+    timeout = setTimeout(() => reject(new Error(`No event within ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timer]).finally(() => clearTimeout(timeout));
+}
+
+function nextExpired(keepAlive: SessionKeepAlive): Promise<SessionExpiredEvent> {
+  return within(new Promise(resolve => keepAlive.once('expired', resolve)));
+}
+
+describe('SessionKeepAlive', () => {
+  let keepAlive: SessionKeepAlive | null = null;
+
+  function start(page: Page, config: BankConfig, options: SessionKeepAliveOptions = {}): SessionKeepAlive {
+    keepAlive = new SessionKeepAlive(page, config, { checkIntervalMs: 10, marginMinutes: 0, ...options });
+    return keepAlive.start();
+  }
+
+  afterEach(() => {
+    keepAlive?.stop();
+    keepAlive = null;
+  });
+
+  it('refuses banks without a session policy', () => {
+    assert.throws(() => new SessionKeepAlive(fakePage().page, { ...bank(), session: undefined }), /no session policy/);
+  });
+
+  it('expires after the idle timeout when pings fail', async () => {
+    const fake = fakePage(() => new Error('net::ERR_CONNECTION_RESET'));
+    const session = start(fake.page, bank({ idleTimeoutMinutes: 60 * MS }));
+
+    const expired = await nextExpired(session);
+
+    assert.equal(expired.reason, 'idle-timeout');
+    assert.ok(fake.requests.length > 0);
+    assert.equal(session.getStatus().state, 'expired');
+    assert.equal(session.isActive(), false);
+  });
+
+  it('expires at the maximum lifetime even while pings succeed', async () => {
+    const fake = fakePage();
+    const session = start(fake.page, bank({ idleTimeoutMinutes: 100 * MS, maxLifetimeMinutes: 1 }), {
+      startedAt: Date.now() - 60000 + 200,
+      marginMinutes: 60 * MS
+    });
+
+    const expired = await nextExpired(session);
+
+    assert.equal(expired.reason, 'max-lifetime');
+    assert.ok(fake.requests.length > 0, 'pings kept the idle timer from expiring first');
+    assert.ok(Date.now() >= session.getStatus().expiresAt);
+  });
+
+  it('pings the keep-alive page within the margin of the idle timeout', async () => {
+    const fake = fakePage();
+    const session = start(fake.page, bank({ idleTimeoutMinutes: 200 * MS }), { marginMinutes: 150 * MS });
+    const before = session.getStatus().lastActivity;
+
+    const ping = await within(new Promise<SessionPingEvent>(resolve => session.on('ping', resolve)));
+
+    assert.deepEqual(fake.requests, [KEEP_ALIVE_URL]);
+    assert.equal(ping.status, 200);
+    assert.equal(session.getStatus().state, 'active');
+    assert.ok(session.getStatus().lastActivity >= before);
+  });
+
+  it('does not ping while the page is busy', async () => {
+    const fake = fakePage();
+    start(fake.page, bank({ idleTimeoutMinutes: 1 }));
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.deepEqual(fake.requests, []);
+  });
+
+  it('counts page navigations as activity', async () => {
+    const fake = fakePage();
+    const session = start(fake.page, bank());
+    const before = session.getStatus().lastActivity;
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    fake.navigate();
+
+    assert.ok(session.getStatus().lastActivity > before);
+  });
+
+  it('detects a logout when the keep-alive page redirects to the login page', async () => {
+    const fake = fakePage(() => ({ url: 'https://bank.example/login?expired=1', status: 200 }));
+    const session = start(fake.page, bank());
+    const expired = nextExpired(session);
+
+    assert.equal(await session.ping(), false);
+
+    const event = await expired;
+    assert.equal(event.reason, 'logged-out');
+    assert.match(event.detail!, /bank\.example\/login/);
+    assert.equal(fake.listeners.size, 0, 'stops listening to the page');
+  });
+
+  it('detects a logout when the keep-alive page answers with an error status', async () => {
+    const session = start(fakePage(() => ({ url: KEEP_ALIVE_URL, status: 401 })).page, bank());
+
+    assert.equal(await session.ping(), false);
+    assert.equal(session.getStatus().reason, 'logged-out');
+  });
+
+  it('warns once before the maximum lifetime', async () => {
+    const session = start(fakePage().page, bank({ maxLifetimeMinutes: 1 }), {
+      startedAt: Date.now() - 60000 + 300,
+      marginMinutes: 250 * MS
+    });
+    let warnings = 0;
+    session.on('expiring', () => { warnings++; });
+
+    const expiring = await within(new Promise<SessionExpiringEvent>(resolve => session.on('expiring', resolve)));
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    assert.equal(expiring.expiresAt, session.getStatus().expiresAt);
+    assert.ok(expiring.remainingMs > 0 && expiring.remainingMs <= 250);
+    assert.equal(warnings, 1);
+  });
+
+  it('throws SessionExpiredError from assertActive once the session has expired', async () => {
+    const session = start(fakePage(() => ({ url: LOGIN_URL, status: 200 })).page, bank());
+
+    assert.doesNotThrow(() => session.assertActive());
+    await session.ping();
+
+    assert.throws(() => session.assertActive(), (error: unknown) => {
+      assert.ok(error instanceof SessionExpiredError);
+      assert.equal(error.bankName, 'Test Bank');
+      assert.equal(error.reason, 'logged-out');
+      return true;
+    });
+  });
+
+  it('stays usable after stop without expiring', () => {
+    const fake = fakePage();
+    const session = start(fake.page, bank());
+
+    session.stop();
+
+    assert.equal(session.getStatus().state, 'stopped');
+    assert.equal(fake.listeners.size, 0);
+    assert.doesNotThrow(() => session.assertActive());
+  });
+});
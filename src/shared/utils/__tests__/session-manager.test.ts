@@ -0,0 +1,141 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { SessionManager } from '../session-manager';
+import { MemorySessionStore } from '../session-store';
+import { SESSION_KEY_ENV, decryptSession, encryptSession } from '../session-crypto';
+import type { BankConfig } from '../../types/base';
+
+const SECRET = 'test-secret-with-enough-length';
+
+const BANESCO: BankConfig = {
+  name: 'Banesco',
+  code: 'banesco',
+  baseUrl: 'https://www.banesconline.com',
+  loginUrl: 'https://www.banesconline.com/mantis/Website/Login.aspx',
+  supportedFeatures: ['accounts', 'transactions']
+};
+
+const BNC: BankConfig = {
+  name: 'BNC',
+  code: 'bnc',
+  baseUrl: 'https://personas.bncenlinea.com',
+  loginUrl: 'https://personas.bncenlinea.com/',
+  supportedFeatures: ['accounts', 'transactions']
+};
+
+// The pre-namespacing session id (32-bit string hash of the username)
+function legacyId(username: string): string {
+  let hash = 0;
+  for (let i = 0; i < username.length; i++) {
+    hash = ((hash << 5) - hash) + username.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(36);
+}
+
+function legacySession(username: string, url: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    cookies: [{ name: 'ASP.NET_SessionId', value: 'abc', domain: new URL(url).hostname, path: '/' }],
+    localStorage: {},
+    sessionStorage: {},
+    url,
+    timestamp: Date.now(),
+    userAgent: 'test',
+    username: username.substring(0, 3) + '***',
+    ...extra
+  };
+}
+
+// Enough of a Page for restoreSession
+function fakePage(): Page {
+  return {
+    context: () => ({ addCookies: async () => undefined }),
+    goto: async () => null,
+    evaluate: async () => undefined,
+    reload: async () => null
+  } as unknown as Page;
+}
+
+async function storedSession(store: MemorySessionStore, sessionId: string): Promise<Record<string, unknown>> {
+  return JSON.parse(await decryptSession(JSON.parse((await store.get(sessionId))!), SECRET, sessionId));
+}
+
+describe('SessionManager legacy session migration', () => {
+  let previousKey: string | undefined;
+
+  before(() => {
+    previousKey = process.env[SESSION_KEY_ENV];
+    process.env[SESSION_KEY_ENV] = SECRET;
+  });
+  after(() => {
+    if (previousKey === undefined) {
+      delete process.env[SESSION_KEY_ENV];
+    } else {
+      process.env[SESSION_KEY_ENV] = previousKey;
+    }
+  });
+
+  it('encrypts a plaintext legacy session under the namespaced id', async () => {
+    const store = new MemorySessionStore();
+    const manager = SessionManager.create({ store });
+    await store.set(legacyId('usuario1'), JSON.stringify(legacySession('usuario1', 'https://www.banesconline.com/Mantis/WebSite/default.aspx')));
+
+    assert.equal(await manager.restoreSession(fakePage(), 'usuario1', BANESCO), true);
+
+    const [sessionId] = await store.list();
+    assert.match(sessionId, /^banesco_[0-9a-f]{32}$/);
+
+    const migrated = await storedSession(store, sessionId);
+    assert.equal(migrated.bank, 'banesco');
+    assert.match(String(migrated.usernameHmac), /^[0-9a-f]{64}$/);
+  });
+
+  it('migrates encrypted legacy sessions of the same bank', async () => {
+    const store = new MemorySessionStore();
+    const manager = SessionManager.create({ store });
+    const id = legacyId('usuario1');
+    const envelope = await encryptSession(
+      JSON.stringify(legacySession('usuario1', 'https://personas.bncenlinea.com/', { bank: 'bnc' })),
+      SECRET,
+      id
+    );
+    await store.set(id, JSON.stringify(envelope));
+
+    assert.equal(await manager.restoreSession(fakePage(), 'usuario1', BNC), true);
+    assert.deepEqual((await store.list()).map(sessionId => sessionId.split('_')[0]), ['bnc']);
+  });
+
+  it('leaves legacy sessions of another bank or an ambiguous one in place', async () => {
+    const store = new MemorySessionStore();
+    const manager = SessionManager.create({ store });
+    const id = legacyId('usuario1');
+    const plaintext = JSON.stringify(legacySession('usuario1', 'https://www.banesconline.com/Mantis/WebSite/default.aspx'));
+    await store.set(id, plaintext);
+
+    assert.equal(await manager.restoreSession(fakePage(), 'usuario1', BNC), false);
+    assert.equal(await manager.restoreSession(fakePage(), 'usuario1'), false);
+    assert.deepEqual(await store.list(), [id]);
+    assert.equal(await store.get(id), plaintext);
+  });
+
+  it('does not migrate a session whose masked username differs', async () => {
+    const store = new MemorySessionStore();
+    const manager = SessionManager.create({ store });
+    const id = legacyId('usuario1');
+    await store.set(id, JSON.stringify(legacySession('otro-usuario', 'https://www.banesconline.com/')));
+
+    assert.equal(await manager.restoreSession(fakePage(), 'usuario1', BANESCO), false);
+    assert.deepEqual(await store.list(), [id]);
+  });
+
+  it('does not discard plaintext legacy sessions when listing', async () => {
+    const store = new MemorySessionStore();
+    const manager = SessionManager.create({ store });
+    const id = legacyId('usuario1');
+    await store.set(id, JSON.stringify(legacySession('usuario1', 'https://www.banesconline.com/')));
+
+    assert.deepEqual(await manager.listSessions(), []);
+    assert.deepEqual(await store.list(), [id]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSessionStore, KeyValueSessionStore, MemoryKeyValueClient, MemorySessionStore } from '../session-store';
+import type { SessionStore } from '../session-store';
+
+async function exerciseStore(store: SessionStore): Promise<void> {
+  assert.equal(await store.get('bnc_a'), null);
+
+  await store.set('bnc_a', 'first');
+  await store.set('bnc_a', 'second');
+  await store.set('banesco_b', 'other');
+
+  assert.equal(await store.get('bnc_a'), 'second');
+  assert.deepEqual((await store.list()).sort(), ['banesco_b', 'bnc_a']);
+
+  await store.delete('bnc_a');
+  await store.delete('missing');
+  assert.equal(await store.get('bnc_a'), null);
+  assert.deepEqual(await store.list(), ['banesco_b']);
+}
+
+describe('session stores', () => {
+  let directory: string;
+
+  before(() => { directory = mkdtempSync(join(tmpdir(), 'banker-sessions-')); });
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('FileSessionStore keeps owner-only files', async () => {
+    const sessions = join(directory, 'sessions');
+    const store = new FileSessionStore(sessions);
+    await exerciseStore(store);
+
+    if (process.platform !== 'win32') {
+      assert.equal(statSync(sessions).mode & 0o777, 0o700);
+      assert.equal(statSync(join(sessions, 'session_banesco_b.json')).mode & 0o777, 0o600);
+    }
+  });
+
+  it('MemorySessionStore', async () => {
+    await exerciseStore(new MemorySessionStore());
+  });
+
+  it('KeyValueSessionStore only lists its own prefix', async () => {
+    const client = new MemoryKeyValueClient();
+    await client.set('unrelated:key', 'x');
+
+    await exerciseStore(new KeyValueSessionStore(client, 'banker:session:'));
+    assert.deepEqual((await client.keys('*')).sort(), ['banker:session:banesco_b', 'unrelated:key']);
+  });
+});
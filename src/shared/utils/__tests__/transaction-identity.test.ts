@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignTransactionIds, dedupeTransactions, mergeTransactions } from '../transaction-identity';
+import type { IdentifiableTransaction } from '../transaction-identity';
+
+function transaction(overrides: Partial<IdentifiableTransaction> = {}): IdentifiableTransaction {
+  return {
+    date: '2025-01-15',
+    description: 'PAGO MOVIL RECIBIDO',
+    amount: 100,
+    type: 'credit',
+    balance: 0,
+    currency: 'VES',
+    bankName: 'BNC',
+    accountNumber: '01910000000000001109',
+    ...overrides
+  };
+}
+
+describe('transaction identity', () => {
+  it('gives the same movement the same id in every scrape', () => {
+    const [first] = assignTransactionIds([transaction({ balance: 10 })]);
+    const [second] = assignTransactionIds([transaction({ balance: 20, description: '  pago  móvil recibido ' })]);
+
+    assert.match(first.id!, /^bnc-[0-9a-f]{16}$/);
+    assert.equal(first.id, second.id);
+  });
+
+  it('keeps identical movements of one scrape apart', () => {
+    const ids = assignTransactionIds([transaction(), transaction()]).map(({ id }) => id);
+    assert.notEqual(ids[0], ids[1]);
+  });
+
+  it('tells the same movement in two accounts apart', () => {
+    const [a, b] = assignTransactionIds([transaction(), transaction({ accountNumber: '01910000000000002201' })]);
+    assert.notEqual(a.id, b.id);
+  });
+
+  it('uses the signed amount, so a debit and a credit differ', () => {
+    const [credit, debit] = assignTransactionIds([transaction(), transaction({ type: 'debit' })]);
+    assert.notEqual(credit.id, debit.id);
+  });
+
+  it('merges overlapping scrapes without double counting', () => {
+    const january = assignTransactionIds([transaction(), transaction({ date: '2025-01-16' })]);
+    const overlap = assignTransactionIds([transaction({ date: '2025-01-16' }), transaction({ date: '2025-01-17' })]);
+    const merged = mergeTransactions(january, overlap);
+
+    assert.equal(merged.transactions.length, 3);
+    assert.equal(merged.added, 1);
+    assert.equal(merged.duplicates, 1);
+    assert.equal(dedupeTransactions([...january, ...january]).length, 2);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransactionStore } from '../transaction-store';
+import type { IdentifiableTransaction } from '../transaction-identity';
+
+function transaction(date: string, balance: number, account: string = '0134-****-1234'): IdentifiableTransaction {
+  return { date, description: `MOV ${date}`, amount: 10, type: 'credit', balance, currency: 'VES', accountNumber: account };
+}
+
+describe('TransactionStore', () => {
+  let directory: string;
+  let store: TransactionStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'banker-store-'));
+    store = new TransactionStore(directory);
+  });
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('returns only new and changed transactions on each sync', () => {
+    const [first] = store.sync('banesco', [transaction('2025-01-01', 10), transaction('2025-01-02', 20)]);
+    assert.equal(first.added.length, 2);
+
+    const [second] = store.sync('banesco', [transaction('2025-01-02', 25), transaction('2025-01-03', 35)]);
+    assert.equal(second.added.length, 1);
+    assert.equal(second.changed.length, 1);
+    assert.equal(second.unchanged, 0);
+    assert.equal(second.cursor.lastSyncedDate, '2025-01-03');
+    assert.equal(second.cursor.transactionCount, 3);
+  });
+
+  it('keeps the newest version of each transaction', () => {
+    store.sync('banesco', [transaction('2025-01-02', 20)]);
+    store.sync('banesco', [transaction('2025-01-02', 25)]);
+
+    const stored = store.getTransactions('banesco', '0134-****-1234');
+    assert.equal(stored.length, 1);
+    assert.equal(stored[0].balance, 25);
+
+    // The file itself keeps both versions; reading it directly also resolves to the newest
+    const file = join(directory, 'banesco', '0134-_-1234.jsonl');
+    assert.equal(readFileSync(file, 'utf-8').trim().split('\n').length, 2);
+    assert.deepEqual(TransactionStore.readTransactionsFile(file), stored);
+  });
+
+  it('tracks a cursor per account and resumes from the oldest', () => {
+    store.sync('bnc', [transaction('2025-01-10', 0, 'A'), transaction('2025-01-05', 0, 'B')]);
+
+    assert.equal(store.getCursors('bnc').length, 2);
+    assert.equal(store.getSyncStart('bnc'), '2025-01-05');
+    assert.equal(store.getSyncStart('banesco'), null);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Amount Parser
+ *
+ * Parses amounts as shown by bank screens in either Venezuelan (1.234,56) or
+ * US (1,234.56) notation. The format is detected per value; the bank's format
+ * is only used to settle values that read both ways, such as "1.234".
+ * Negatives may be written "-1.234,00", "1.234,00-" or "(1.234,00)", and
+ * currency markers ("Bs.", "Bs.S", "VES", "USD", "$", "€") are recognised.
+ * Values that cannot be read are reported with an AmountParseError, never as 0.
+ */
+
+import { decimalToCents } from './money';
+
+export type AmountFormat =
+  | 'es-VE'   // 1.234,56 - decimal comma
+  | 'en-US'   // 1,234.56 - decimal point
+  | 'auto';   // Detect per value, ambiguous values are errors
+
+export type AmountParseErrorReason = 'empty' | 'invalid' | 'ambiguous';
+
+export class AmountParseError extends Error {
+  constructor(
+    public readonly value: string,
+    public readonly reason: AmountParseErrorReason,
+    detail: string
+  ) {
+    super(`Cannot parse amount "${value}": ${detail}`);
+    this.name = 'AmountParseError';
+  }
+}
+
+export interface ParsedAmount {
+  value: number;                     // Signed value (for legacy `number` fields)
+  cents: number;                     // Exact signed value in cents
+  currency: string | null;           // From a currency marker, null if none
+  format: Exclude<AmountFormat, 'auto'>;  // Notation the value was read in
+}
+
+export interface AmountParseOptions {
+  format?: AmountFormat;  // Bank's usual notation, default: 'auto'
+}
+
+// Longest markers first so "Bs.S" is not read as "Bs." followed by "S"
+const CURRENCY_MARKERS: Array<{ pattern: RegExp; currency: string }> = [
+  { pattern: /bs\.?\s*[sdf]\b\.?/i, currency: 'VES' },
+  { pattern: /\b(ves|vef|ved)\b/i, currency: 'VES' },
+  { pattern: /bs\.?/i, currency: 'VES' },
+  { pattern: /\busd\b|us\$|\$/i, currency: 'USD' },
+  { pattern: /\beur\b|€/i, currency: 'EUR' }
+];
+
+/**
+ * Parse one amount, throwing AmountParseError when it cannot be read unambiguously
+ */
+export function parseAmount(text: string, options: AmountParseOptions = {}): ParsedAmount {
+  const original = text;
+  let remaining = text.replace(/\s+/g, ' ').trim();
+
+  if (!remaining) {
+    throw new AmountParseError(original, 'empty', 'no amount found');
+  }
+
+  let currency: string | null = null;
+  for (const marker of CURRENCY_MARKERS) {
+    if (marker.pattern.test(remaining)) {
+      currency = currency || marker.currency;
+      remaining = remaining.replace(marker.pattern, ' ');
+    }
+  }
+
+  remaining = remaining.replace(/\s+/g, '');
+
+  let negative = false;
+  const parenthesized = remaining.match(/^\((.*)\)$/);
+  if (parenthesized) {
+    negative = true;
+    remaining = parenthesized[1];
+  }
+  if (/^[+-]/.test(remaining) || /-$/.test(remaining)) {
+    negative = negative || remaining.startsWith('-') || remaining.endsWith('-');
+    remaining = remaining.replace(/^[+-]|-$/g, '');
+  }
+
+  if (!/^\d[\d.,]*$/.test(remaining) || /[.,]$/.test(remaining)) {
+    throw new AmountParseError(original, remaining ? 'invalid' : 'empty', 'expected digits with "." or "," separators');
+  }
+
+  const format = detectFormat(remaining, options.format || 'auto', original);
+  const [thousands, decimal] = format === 'es-VE' ? ['.', ','] : [',', '.'];
+  const [integerPart, fractionPart, ...extra] = remaining.split(decimal);
+
+  if (extra.length > 0 || !hasValidGrouping(integerPart, thousands)) {
+    throw new AmountParseError(original, 'invalid', `malformed ${format} number`);
+  }
+
+  const normalized = `${negative ? '-' : ''}${integerPart.split(thousands).join('')}${fractionPart !== undefined ? `.${fractionPart}` : ''}`;
+  const cents = decimalToCents(normalized) || 0;  // No negative zero
+
+  return {
+    value: cents / 100,
+    cents,
+    currency,
+    format
+  };
+}
+
+/**
+ * Parse an amount, returning null instead of throwing (for optional cells)
+ */
+export function tryParseAmount(text: string, options: AmountParseOptions = {}): ParsedAmount | null {
+  try {
+    return parseAmount(text, options);
+  } catch (error) {
+    if (error instanceof AmountParseError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Notation of a BCP 47 locale, from its decimal separator ("es-VE" → 'es-VE', "en-US" → 'en-US')
+ */
+export function amountFormatForLocale(locale: string): Exclude<AmountFormat, 'auto'> {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal');
+  return decimal?.value === '.' ? 'en-US' : 'es-VE';
+}
+
+/**
+ * Decide which separator is the decimal one
+ */
+function detectFormat(digits: string, hint: AmountFormat, original: string): Exclude<AmountFormat, 'auto'> {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  // Both separators: the last one is the decimal separator
+  if (lastDot !== -1 && lastComma !== -1) {
+    return lastComma > lastDot ? 'es-VE' : 'en-US';
+  }
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator) {
+    return hint === 'auto' ? 'es-VE' : hint;
+  }
+
+  const occurrences = digits.split(separator).length - 1;
+  const digitsAfter = digits.length - digits.lastIndexOf(separator) - 1;
+
+  // Repeated separator can only be a thousands separator
+  if (occurrences > 1) {
+    return separator === '.' ? 'es-VE' : 'en-US';
+  }
+
+  // "1.5", "1,50", "0.123": not a thousands group, so it is the decimal separator
+  if (digitsAfter !== 3 || /^0+$/.test(digits.substring(0, digits.indexOf(separator)))) {
+    return separator === ',' ? 'es-VE' : 'en-US';
+  }
+
+  // "1.234" / "1,234": thousands group or three decimals, the bank decides
+  if (hint === 'auto') {
+    throw new AmountParseError(original, 'ambiguous', `"${separator}" may be a thousands or decimal separator`);
+  }
+
+  return hint;
+}
+
+function hasValidGrouping(integerPart: string, thousands: string): boolean {
+  const groups = integerPart.split(thousands);
+
+  return groups.length === 1 || (
+    /^\d{1,3}$/.test(groups[0]) && groups.slice(1).every(group => /^\d{3}$/.test(group))
+  );
+}
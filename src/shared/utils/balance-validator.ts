@@ -0,0 +1,205 @@
+/**
+ * Balance Validator
+ *
+ * Checks that the running balances of a statement are consistent: walking
+ * each account's transactions in statement order, every balance must equal
+ * the previous one plus the credit or minus the debit. Banks list movements
+ * oldest-first or newest-first, so both orders are tried and the one with
+ * fewer breaks is kept. When the page reports a summary (previous and current
+ * balance), its totals are checked too. A break points at a missing movement
+ * (a gap) or a mis-parsed amount or balance.
+ */
+
+import { addMoney, moneyToDecimal, subtractMoney, sumMoney, toMoney, transactionAmount } from './money';
+import type { IdentifiableTransaction } from './transaction-identity';
+import type { Money } from '../types/base';
+
+export type BalanceIssueKind =
+  | 'balance-gap'        // Running balance does not follow from the previous row
+  | 'opening-balance'    // First movement does not start from the summary's previous balance
+  | 'closing-balance'    // Last running balance differs from the summary's current balance
+  | 'summary-total';     // previousBalance + movements != currentBalance
+
+export interface BalanceIssue {
+  kind: BalanceIssueKind;
+  account: string;
+  transactionId?: string;
+  date?: string;
+  description?: string;
+  expected: string;      // Decimal string, e.g. "1234.56"
+  actual: string;
+  difference: string;    // actual - expected
+}
+
+export interface AccountBalanceCheck {
+  account: string;
+  currency: string;
+  transactions: number;
+  order?: 'ascending' | 'descending';  // Statement order the running balances follow
+  runningBalance: boolean;             // False when the bank reports no running balance (all zero)
+  summaryChecked: boolean;
+  issues: number;
+}
+
+export interface BalanceCheck {
+  valid: boolean;
+  accounts: AccountBalanceCheck[];
+  issues: BalanceIssue[];
+}
+
+// Statement totals reported by the bank (e.g. Banesco `accountSummary`)
+export interface StatementSummary {
+  previousBalance?: number | null;
+  currentBalance?: number | null;
+  accountNumber?: string | null;  // Account the summary belongs to, when several are checked together
+}
+
+/**
+ * Check the running balances of every account and, when given, the statement summary
+ */
+export function validateBalanceContinuity(
+  transactions: IdentifiableTransaction[],
+  summary?: StatementSummary
+): BalanceCheck {
+  const groups = groupByAccount(transactions);
+  const summaryAccount = summary && findSummaryAccount(summary, [...groups.keys()]);
+
+  const accounts: AccountBalanceCheck[] = [];
+  const issues: BalanceIssue[] = [];
+
+  for (const [account, group] of groups) {
+    const currency = group[0].currency;
+    const runningBalance = group.some(transaction => transaction.balance !== 0);
+    const accountIssues: BalanceIssue[] = [];
+    let order: AccountBalanceCheck['order'];
+    let chronological = group;
+
+    if (runningBalance) {
+      const ascending = runningBalanceIssues(account, group);
+      const descending = runningBalanceIssues(account, [...group].reverse());
+
+      order = descending.length < ascending.length ? 'descending' : 'ascending';
+      chronological = order === 'descending' ? [...group].reverse() : group;
+      accountIssues.push(...(order === 'descending' ? descending : ascending));
+    }
+
+    const summaryChecked = summaryAccount === account;
+    if (summaryChecked) {
+      accountIssues.push(...summaryIssues(account, chronological, summary!, runningBalance));
+    }
+
+    accounts.push({
+      account,
+      currency,
+      transactions: group.length,
+      order,
+      runningBalance,
+      summaryChecked,
+      issues: accountIssues.length
+    });
+    issues.push(...accountIssues);
+  }
+
+  return { valid: issues.length === 0, accounts, issues };
+}
+
+// Breaks between consecutive rows, taking `transactions` as oldest-first
+function runningBalanceIssues(account: string, transactions: IdentifiableTransaction[]): BalanceIssue[] {
+  const issues: BalanceIssue[] = [];
+
+  for (let index = 1; index < transactions.length; index++) {
+    const transaction = transactions[index];
+    const expected = addMoney(balanceOf(transactions[index - 1]), transactionAmount(transaction));
+    const actual = balanceOf(transaction);
+
+    if (expected.cents !== actual.cents) {
+      issues.push(issue('balance-gap', account, expected, actual, transaction));
+    }
+  }
+
+  return issues;
+}
+
+function summaryIssues(
+  account: string,
+  chronological: IdentifiableTransaction[],
+  summary: StatementSummary,
+  runningBalance: boolean
+): BalanceIssue[] {
+  const issues: BalanceIssue[] = [];
+  const currency = chronological[0].currency;
+  const previous = isAmount(summary.previousBalance) ? toMoney(summary.previousBalance, currency) : null;
+  const current = isAmount(summary.currentBalance) ? toMoney(summary.currentBalance, currency) : null;
+
+  if (previous && current) {
+    const movements = sumMoney(chronological.map(transactionAmount), currency);
+    const expected = addMoney(previous, movements);
+    if (expected.cents !== current.cents) {
+      issues.push(issue('summary-total', account, expected, current));
+    }
+  }
+
+  if (!runningBalance) {
+    return issues;
+  }
+
+  const first = chronological[0];
+  const last = chronological[chronological.length - 1];
+
+  if (previous) {
+    const opening = subtractMoney(balanceOf(first), transactionAmount(first));
+    if (opening.cents !== previous.cents) {
+      issues.push(issue('opening-balance', account, previous, opening, first));
+    }
+  }
+
+  if (current && balanceOf(last).cents !== current.cents) {
+    issues.push(issue('closing-balance', account, current, balanceOf(last), last));
+  }
+
+  return issues;
+}
+
+// The summary applies to its account when named, else to the only account checked
+function findSummaryAccount(summary: StatementSummary, accounts: string[]): string | undefined {
+  if (summary.accountNumber && accounts.includes(summary.accountNumber)) {
+    return summary.accountNumber;
+  }
+  return accounts.length === 1 ? accounts[0] : undefined;
+}
+
+function groupByAccount(transactions: IdentifiableTransaction[]): Map<string, IdentifiableTransaction[]> {
+  const groups = new Map<string, IdentifiableTransaction[]>();
+
+  for (const transaction of transactions) {
+    const account = transaction.accountNumber || transaction.accountName || 'unknown';
+    groups.set(account, [...(groups.get(account) || []), transaction]);
+  }
+
+  return groups;
+}
+
+function balanceOf(transaction: IdentifiableTransaction): Money {
+  return transaction.balanceMoney || toMoney(transaction.balance, transaction.currency);
+}
+
+function isAmount(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function issue(
+  kind: BalanceIssueKind,
+  account: string,
+  expected: Money,
+  actual: Money,
+  transaction?: IdentifiableTransaction
+): BalanceIssue {
+  return {
+    kind,
+    account,
+    ...(transaction ? { transactionId: transaction.id, date: transaction.date, description: transaction.description } : {}),
+    expected: moneyToDecimal(expected),
+    actual: moneyToDecimal(actual),
+    difference: moneyToDecimal(subtractMoney(actual, expected))
+  };
+}
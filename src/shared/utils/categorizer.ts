@@ -0,0 +1,211 @@
+/**
+ * Transaction Categorizer
+ *
+ * Sets `BankTransaction.category` from an ordered list of rules; the first
+ * rule whose conditions all match wins. Conditions are case-insensitive
+ * regular expressions on the description, bank transaction type, channel
+ * and counterparty, plus debit/credit, currency, account and an amount range.
+ * Rules are loaded from a JSON or YAML file:
+ *
+ *   rules:
+ *     - category: Comida
+ *       description: "panaderia|restaurant"
+ *       type: debit
+ *       maxAmount: 500
+ */
+
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { decimalToCents, transactionAmount } from './money';
+import type { IdentifiableTransaction } from './transaction-identity';
+
+export interface CategoryRule {
+  category: string;
+  description?: string;       // Regex on the description
+  transactionType?: string;   // Regex on the bank's own transaction type (e.g. BNC "Pago Móvil")
+  channel?: string;           // Regex on the channel from the description ('pago-movil', 'transfer', ...)
+  counterparty?: string;      // Regex on the counterparty name, id or phone
+  type?: 'debit' | 'credit';
+  currency?: string;
+  account?: string;           // Account number or name
+  minAmount?: number;         // Absolute amount, inclusive
+  maxAmount?: number;         // Absolute amount, inclusive
+}
+
+export type CategorizableTransaction = IdentifiableTransaction & {
+  transactionType?: string;
+};
+
+export interface CategorizationResult<T> {
+  transactions: T[];
+  categorized: number;   // Transactions that got a category from a rule
+  uncategorized: T[];    // Transactions no rule matched (and that had no category)
+}
+
+export interface CategorizeOptions {
+  overwrite?: boolean;   // Replace categories already set (default: false)
+}
+
+export class CategoryRuleError extends Error {
+  constructor(
+    public readonly ruleIndex: number,
+    detail: string
+  ) {
+    super(`Invalid category rule #${ruleIndex + 1}: ${detail}`);
+    this.name = 'CategoryRuleError';
+  }
+}
+
+interface CompiledRule {
+  rule: CategoryRule;
+  patterns: Array<{ pattern: RegExp; values: (transaction: CategorizableTransaction) => Array<string | undefined> }>;
+  minCents?: number;
+  maxCents?: number;
+}
+
+const PATTERN_FIELDS = {
+  description: (transaction: CategorizableTransaction) => [transaction.description],
+  transactionType: (transaction: CategorizableTransaction) => [transaction.transactionType],
+  channel: (transaction: CategorizableTransaction) => [transaction.channel],
+  counterparty: (transaction: CategorizableTransaction) => [
+    transaction.counterparty?.name,
+    transaction.counterparty?.id,
+    transaction.counterparty?.phone
+  ]
+};
+
+export class TransactionCategorizer {
+  private rules: CompiledRule[];
+
+  constructor(rules: CategoryRule[]) {
+    this.rules = rules.map(compileRule);
+  }
+
+  /**
+   * Build a categorizer from a JSON or YAML rules file (a list of rules or `{ rules: [...] }`)
+   */
+  static fromFile(file: string): TransactionCategorizer {
+    return new TransactionCategorizer(loadCategoryRules(file));
+  }
+
+  /**
+   * Build a categorizer from the `categoryRules` scraper option (a rules file or the rules)
+   */
+  static fromConfig(rules: string | CategoryRule[]): TransactionCategorizer {
+    return typeof rules === 'string' ? TransactionCategorizer.fromFile(rules) : new TransactionCategorizer(rules);
+  }
+
+  /**
+   * Category of the first matching rule, null if none matches
+   */
+  match(transaction: CategorizableTransaction): string | null {
+    const compiled = this.rules.find(candidate => matches(candidate, transaction));
+    return compiled ? compiled.rule.category : null;
+  }
+
+  /**
+   * Set the category of every transaction a rule matches
+   */
+  categorize<T extends CategorizableTransaction>(transactions: T[], options: CategorizeOptions = {}): CategorizationResult<T> {
+    let categorized = 0;
+    const uncategorized: T[] = [];
+
+    const result = transactions.map(transaction => {
+      if (transaction.category && !options.overwrite) {
+        return transaction;
+      }
+
+      const category = this.match(transaction);
+      if (!category) {
+        uncategorized.push(transaction);
+        return transaction;
+      }
+
+      categorized++;
+      return { ...transaction, category };
+    });
+
+    return { transactions: result, categorized, uncategorized };
+  }
+}
+
+/**
+ * Read and validate category rules from a JSON or YAML file
+ */
+export function loadCategoryRules(file: string): CategoryRule[] {
+  const content = readFileSync(file, 'utf-8');
+  const data = /\.ya?ml$/i.test(file) ? parseYaml(content) : JSON.parse(content);
+  const rules = Array.isArray(data) ? data : data?.rules;
+
+  if (!Array.isArray(rules)) {
+    throw new Error(`No category rules found in ${file} (expected a list or { rules: [...] })`);
+  }
+
+  rules.forEach(compileRule);
+  return rules;
+}
+
+/**
+ * Rules of the `categoryRules` scraper option: read from the file, or validated as given
+ */
+export function resolveCategoryRules(rules: string | CategoryRule[]): CategoryRule[] {
+  if (typeof rules === 'string') {
+    return loadCategoryRules(rules);
+  }
+
+  rules.forEach(compileRule);
+  return rules;
+}
+
+function compileRule(rule: CategoryRule, index: number): CompiledRule {
+  if (!rule || typeof rule.category !== 'string' || !rule.category.trim()) {
+    throw new CategoryRuleError(index, '`category` is required');
+  }
+
+  if (rule.type && rule.type !== 'debit' && rule.type !== 'credit') {
+    throw new CategoryRuleError(index, `\`type\` must be "debit" or "credit", got "${rule.type}"`);
+  }
+
+  const patterns = (Object.keys(PATTERN_FIELDS) as Array<keyof typeof PATTERN_FIELDS>)
+    .filter(field => rule[field] !== undefined)
+    .map(field => {
+      try {
+        return { pattern: new RegExp(String(rule[field]), 'i'), values: PATTERN_FIELDS[field] };
+      } catch (error) {
+        throw new CategoryRuleError(index, `\`${field}\` is not a valid regular expression: ${(error as Error).message}`);
+      }
+    });
+
+  const cents = (value: number | undefined, field: string) => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new CategoryRuleError(index, `\`${field}\` must be a number`);
+    }
+    return decimalToCents(Math.abs(value).toFixed(2));
+  };
+
+  return {
+    rule,
+    patterns,
+    minCents: cents(rule.minAmount, 'minAmount'),
+    maxCents: cents(rule.maxAmount, 'maxAmount')
+  };
+}
+
+function matches(compiled: CompiledRule, transaction: CategorizableTransaction): boolean {
+  const { rule } = compiled;
+
+  if (rule.type && transaction.type !== rule.type) return false;
+  if (rule.currency && transaction.currency.toUpperCase() !== rule.currency.toUpperCase()) return false;
+  if (rule.account && rule.account !== transaction.accountNumber && rule.account !== transaction.accountName) return false;
+
+  if (compiled.minCents !== undefined || compiled.maxCents !== undefined) {
+    const cents = Math.abs(transactionAmount(transaction).cents);
+    if (compiled.minCents !== undefined && cents < compiled.minCents) return false;
+    if (compiled.maxCents !== undefined && cents > compiled.maxCents) return false;
+  }
+
+  return compiled.patterns.every(({ pattern, values }) =>
+    values(transaction).some(value => value !== undefined && pattern.test(value))
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Date Parser
+ *
+ * Parses dates as shown by bank screens: "15/01/2025", "15-01-25",
+ * "2025-01-15", "15 ene 2025", "15 de enero de 2025", optionally followed by
+ * a time ("15/01/2025 02:30 p.m."). Dates are calendar dates of the bank's
+ * timezone (America/Caracas by default) and come back as ISO strings with
+ * that timezone's UTC offset. Anything that is not a real date is reported
+ * with a DateParseError instead of being passed through.
+ */
+
+export const DEFAULT_BANK_TIMEZONE = 'America/Caracas';
+
+export type DateParseErrorReason = 'empty' | 'unrecognized' | 'invalid';
+
+export class DateParseError extends Error {
+  constructor(
+    public readonly value: string,
+    public readonly reason: DateParseErrorReason,
+    detail: string
+  ) {
+    super(`Cannot parse date "${value}": ${detail}`);
+    this.name = 'DateParseError';
+  }
+}
+
+export interface ParsedDate {
+  date: string;        // YYYY-MM-DD in the bank's timezone
+  time?: string;       // HH:mm:ss, only when the value has a time
+  timestamp: string;   // ISO 8601 with offset, e.g. 2025-01-15T14:30:00-04:00 (midnight without time)
+  timezone: string;
+}
+
+export interface DateParseOptions {
+  timezone?: string;        // Default: America/Caracas
+  twoDigitYearPivot?: number; // Two-digit years below the pivot are 20xx, others 19xx (default: 70)
+}
+
+const MONTHS: Record<string, number> = {
+  ene: 1, enero: 1, jan: 1,
+  feb: 2, febrero: 2,
+  mar: 3, marzo: 3,
+  abr: 4, abril: 4, apr: 4,
+  may: 5, mayo: 5,
+  jun: 6, junio: 6,
+  jul: 7, julio: 7,
+  ago: 8, agosto: 8, aug: 8,
+  sep: 9, sept: 9, set: 9, septiembre: 9, setiembre: 9,
+  oct: 10, octubre: 10,
+  nov: 11, noviembre: 11,
+  dic: 12, diciembre: 12, dec: 12
+};
+
+const TIME_PATTERN = /(?:\s+|T)(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap])?\.?\s*(?:m\.?)?$/i;
+
+/**
+ * Parse one date (optionally with time), throwing DateParseError for invalid values
+ */
+export function parseBankDate(text: string, options: DateParseOptions = {}): ParsedDate {
+  const timezone = options.timezone || DEFAULT_BANK_TIMEZONE;
+  const original = text;
+  let value = text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+  if (!value) {
+    throw new DateParseError(original, 'empty', 'no date found');
+  }
+
+  let time: string | undefined;
+  const timeMatch = value.match(TIME_PATTERN);
+  if (timeMatch) {
+    time = parseTime(timeMatch, original);
+    value = value.substring(0, timeMatch.index).trim();
+  }
+
+  const parts = splitDate(value);
+  if (!parts) {
+    throw new DateParseError(original, 'unrecognized', 'expected DD/MM/YYYY, YYYY-MM-DD or "15 ene 2025"');
+  }
+
+  const year = expandYear(parts.year, options.twoDigitYearPivot ?? 70);
+  const { month, day } = parts;
+
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    throw new DateParseError(original, 'invalid', `${day}/${month}/${year} is not a calendar date`);
+  }
+
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  const localTime = time || '00:00:00';
+
+  return {
+    date,
+    time,
+    timestamp: `${date}T${localTime}${utcOffset(date, localTime, timezone)}`,
+    timezone
+  };
+}
+
+/**
+ * Parse a date, returning null instead of throwing (for optional cells)
+ */
+export function tryParseBankDate(text: string, options: DateParseOptions = {}): ParsedDate | null {
+  try {
+    return parseBankDate(text, options);
+  } catch (error) {
+    if (error instanceof DateParseError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Today's calendar date (YYYY-MM-DD) in the given timezone
+ */
+export function todayInTimezone(timezone: string = DEFAULT_BANK_TIMEZONE, now: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+function splitDate(value: string): { year: number; month: number; day: number } | null {
+  // 2025-01-15, 2025/01/15
+  let match = value.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/);
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+
+  // 15/01/2025, 15-01-25, 15.01.2025
+  match = value.match(/^(\d{1,2})([\/\-.])(\d{1,2})\2(\d{2}|\d{4})$/);
+  if (match) {
+    return { year: Number(match[4]), month: Number(match[3]), day: Number(match[1]) };
+  }
+
+  // 15 ene 2025, 15-ene-25, 15/Ene./2025, 15 de enero de 2025
+  match = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .match(/^(\d{1,2})(?:[\s\/\-.]+de)?[\s\/\-.]+([a-z]+)\.?(?:[\s\/\-.]+de(?:l)?)?[\s\/\-.,]+(\d{2}|\d{4})$/);
+  if (match && MONTHS[match[2]]) {
+    return { year: Number(match[3]), month: MONTHS[match[2]], day: Number(match[1]) };
+  }
+
+  return null;
+}
+
+function expandYear(year: number, pivot: number): number {
+  if (year >= 100) return year;
+  return year < pivot ? 2000 + year : 1900 + year;
+}
+
+function parseTime(match: RegExpMatchArray, original: string): string {
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3] || 0);
+  const meridiem = match[4];
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      throw new DateParseError(original, 'invalid', `${hours} is not a 12-hour clock hour`);
+    }
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    throw new DateParseError(original, 'invalid', `${match[1]}:${match[2]} is not a time of day`);
+  }
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * UTC offset ("-04:00") of a local date and time in the given timezone
+ */
+function utcOffset(date: string, time: string, timezone: string): string {
+  const asUtc = Date.parse(`${date}T${time}Z`);
+  // Offset at the local wall time (shifted once so DST boundaries resolve to the right side)
+  let offsetMinutes = offsetAt(asUtc, timezone);
+  offsetMinutes = offsetAt(asUtc - offsetMinutes * 60000, timezone);
+
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return Math.round((wallClock - instant) / 60000);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,182 @@
+/**
+ * Description Parser
+ *
+ * Reads the structured data Venezuelan banks pack into free-text movement
+ * descriptions: the payment channel (Pago Móvil, transfer, TDD/TDC purchase,
+ * deposit, withdrawal, fee), the counterparty's cédula/RIF, mobile phone,
+ * bank and account, and the type of fee or tax charged (commission, IVA,
+ * IGTF, ISLR). Fields that do not appear in the text are left undefined.
+ *
+ *   "PAGO MOVIL RECIBIDO 0102 04141234567 V-12.345.678"
+ *   → channel 'pago-movil', counterparty { phone '04141234567', id 'V12345678', bankCode '0102' }
+ */
+
+import type { BankTransaction, FeeType, TransactionChannel, TransactionCounterparty } from '../types/base';
+
+export interface DescriptionDetails {
+  channel: TransactionChannel;
+  counterparty?: TransactionCounterparty;
+  feeType?: FeeType;
+}
+
+// Bank codes of the Venezuelan interbank system (SUDEBAN)
+export const VENEZUELAN_BANK_CODES: Record<string, string> = {
+  '0102': 'Banco de Venezuela',
+  '0104': 'Venezolano de Crédito',
+  '0105': 'Mercantil',
+  '0108': 'Provincial',
+  '0114': 'Bancaribe',
+  '0115': 'Exterior',
+  '0128': 'Caroní',
+  '0134': 'Banesco',
+  '0137': 'Sofitasa',
+  '0138': 'Banco Plaza',
+  '0146': 'Bangente',
+  '0151': 'BFC Banco Fondo Común',
+  '0156': '100% Banco',
+  '0157': 'DelSur',
+  '0163': 'Banco del Tesoro',
+  '0166': 'Banco Agrícola de Venezuela',
+  '0168': 'Bancrecer',
+  '0169': 'R4 Banco Microfinanciero',
+  '0171': 'Banco Activo',
+  '0172': 'Bancamiga',
+  '0173': 'Banco Internacional de Desarrollo',
+  '0174': 'Banplus',
+  '0175': 'Banco Digital de los Trabajadores',
+  '0177': 'BANFANB',
+  '0178': 'N58 Banco Digital',
+  '0191': 'BNC Banco Nacional de Crédito'
+};
+
+// Bank names as they appear in descriptions, checked when there is no bank code
+const BANK_NAMES: Array<{ pattern: RegExp; code: string }> = [
+  { pattern: /\bbanco de venezuela\b|\bbdv\b/, code: '0102' },
+  { pattern: /\bmercantil\b/, code: '0105' },
+  { pattern: /\bprovincial\b|\bbbva\b/, code: '0108' },
+  { pattern: /\bbancaribe\b/, code: '0114' },
+  { pattern: /\bbanesco\b/, code: '0134' },
+  { pattern: /\btesoro\b/, code: '0163' },
+  { pattern: /\bbancamiga\b/, code: '0172' },
+  { pattern: /\bbanplus\b/, code: '0174' },
+  { pattern: /\bbicentenario\b/, code: '0175' },
+  { pattern: /\bbnc\b|\bnacional de credito\b/, code: '0191' }
+];
+
+// Checked in order: fees and taxes first, so "COMISION PAGO MOVIL" is a fee
+const FEE_PATTERNS: Array<{ pattern: RegExp; feeType: FeeType }> = [
+  { pattern: /\bigtf\b|grandes transacciones/, feeType: 'igtf' },
+  { pattern: /\biva\b|impuesto al valor agregado/, feeType: 'iva' },
+  { pattern: /\bislr\b|impuesto sobre la renta/, feeType: 'islr' },
+  { pattern: /\bcomision(es)?\b|\bcom\.|\bcargo por\b|\bmantenimiento\b/, feeType: 'commission' }
+];
+
+const CHANNEL_PATTERNS: Array<{ pattern: RegExp; channel: TransactionChannel }> = [
+  { pattern: /\bpago\s*movil\b|\bpagomovil\b|\bp\.?\s?movil\b|\bpmovil\b|\bpag\s+mov\b|\bp2p\b|\btpbw\b/, channel: 'pago-movil' },
+  { pattern: /\btdc\b|tarjeta de credito|\bvisa\b|\bmastercard\b/, channel: 'credit-card' },
+  { pattern: /\btdd\b|tarjeta de debito|\bmaestro\b|punto de venta|\bpos\b|\bcompra\b|\bcmp\b/, channel: 'debit-card' },
+  { pattern: /\btransf|\btrf\b|\btraspaso\b|\bcredito inmediato\b|\bdebito inmediato\b/, channel: 'transfer' },
+  { pattern: /\bretiro\b|\bcajero\b|\batm\b|\bavance\b/, channel: 'withdrawal' },
+  { pattern: /\bdeposito\b|\bdep\b\.?/, channel: 'deposit' }
+];
+
+// Words that follow "DE"/"A" in descriptions but are not names
+const NOT_A_NAME = /^(terceros?|otros?|bancos?|cuentas?|propias?|mismo|la|el|los|las|su|mi|banco|pago|movil|credito|debito|tarjeta)$/;
+
+/**
+ * Parse a movement description (and the bank's own transaction type, if any)
+ */
+export function parseTransactionDescription(description: string, transactionType: string = ''): DescriptionDetails {
+  const original = `${transactionType} ${description}`.replace(/\s+/g, ' ').trim();
+  const text = normalize(original);
+
+  const feeType = FEE_PATTERNS.find(({ pattern }) => pattern.test(text))?.feeType;
+  const channel = feeType
+    ? 'fee'
+    : CHANNEL_PATTERNS.find(({ pattern }) => pattern.test(text))?.channel || 'other';
+
+  const counterparty = parseCounterparty(original, text);
+
+  return {
+    channel,
+    ...(counterparty ? { counterparty } : {}),
+    ...(feeType ? { feeType } : {})
+  };
+}
+
+/**
+ * Set `channel`, `counterparty` and `feeType` of a transaction from its description
+ */
+export function withDescriptionDetails<T extends BankTransaction & { transactionType?: string }>(transaction: T): T {
+  return {
+    ...transaction,
+    ...parseTransactionDescription(transaction.description, transaction.transactionType)
+  };
+}
+
+function parseCounterparty(original: string, text: string): TransactionCounterparty | undefined {
+  const counterparty: TransactionCounterparty = {};
+  let rest = text;
+
+  // 20-digit account number: its first 4 digits are the bank code
+  const account = rest.match(/\b(01\d{2})[-\s]?(\d{4})[-\s]?(\d{2})[-\s]?(\d{10})\b/);
+  if (account) {
+    counterparty.account = account.slice(1).join('');
+    counterparty.bankCode = account[1];
+    rest = rest.replace(account[0], ' ');
+  }
+
+  // Mobile phone: 0412/0414/0416/0422/0424/0426, with or without +58
+  const phone = rest.match(/(?:\+?58[-\s]?|\b0)(4(?:12|14|16|22|24|26))[-\s]?(\d{3})[-\s]?(\d{4})\b/);
+  if (phone) {
+    counterparty.phone = `0${phone[1]}${phone[2]}${phone[3]}`;
+    rest = rest.replace(phone[0], ' ');
+  }
+
+  // Cédula or RIF: V-12.345.678, V0012345678, J-12345678-9
+  const id = rest.match(/\b([vejgp])[-\s.]?(\d{1,3}(?:\.\d{3}){1,2}|\d{5,10})(?:-(\d))?\b/);
+  if (id) {
+    const digits = id[2].replace(/\./g, '').replace(/^0+/, '');
+    counterparty.id = `${id[1].toUpperCase()}${digits}${id[3] || ''}`;
+    rest = rest.replace(id[0], ' ');
+  }
+
+  // Standalone bank code ("0102"), else a bank name
+  if (!counterparty.bankCode) {
+    const code = (rest.match(/\b01\d{2}\b/g) || []).find(candidate => VENEZUELAN_BANK_CODES[candidate]);
+    counterparty.bankCode = code || BANK_NAMES.find(({ pattern }) => pattern.test(rest))?.code;
+  }
+  if (counterparty.bankCode) {
+    counterparty.bankName = VENEZUELAN_BANK_CODES[counterparty.bankCode];
+  }
+
+  const name = parseName(original);
+  if (name) {
+    counterparty.name = name;
+  }
+
+  const found = Object.entries(counterparty).filter(([, value]) => value !== undefined);
+  return found.length > 0 ? Object.fromEntries(found) as TransactionCounterparty : undefined;
+}
+
+// "TRANSF. RECIBIDA DE JUAN PEREZ" → "JUAN PEREZ" (two to five words, none of them a keyword)
+function parseName(original: string): string | undefined {
+  const match = original.match(/\b(?:de|a|para|desde)\s+((?:[A-Za-zÁÉÍÓÚÑáéíóúñ]+\.?\s*){2,5})$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const words = match[1].trim().split(/\s+/);
+  if (words.some(word => NOT_A_NAME.test(normalize(word).replace(/\.$/, '')))) {
+    return undefined;
+  }
+
+  return words.join(' ');
+}
+
+function normalize(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .toLowerCase();
+}
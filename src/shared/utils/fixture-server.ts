@@ -0,0 +1,138 @@
+import express, { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface ReplayFixture {
+  file: string;
+  label: string;
+  url: string;
+  currency?: string;        // Account currency, when the manifest gives it
+  accountNumber?: string;
+}
+
+// Manifest value: a label, or the account the capture belongs to
+export type FixtureManifestEntry = string | {
+  label?: string;
+  currency?: string;
+  accountNumber?: string;
+};
+
+/**
+ * Local stand-in that serves saved HTML captures (from `HTMLSaver` or
+ * `saveHtmlForDebug`) so scrapers can be replayed offline.
+ *
+ * An optional `manifest.json` in the fixtures directory maps file names to
+ * labels, or to the account each capture belongs to:
+ *   { "bnc-ves.html": "BNC VES 1109",
+ *     "bnc-usd.html": { "label": "BNC USD 2207", "currency": "USD", "accountNumber": "0191-2207" } }
+ */
+export class FixtureServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private fixturesDir: string;
+  private port: number;
+  private baseUrl: string | null = null;
+
+  constructor(fixturesDir: string, port: number = 0) {
+    this.fixturesDir = path.resolve(fixturesDir);
+    this.port = port;
+    this.app = express();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.app.get('/fixtures/:file', (req: Request, res: Response) => {
+      const file = path.basename(req.params.file);
+      const filePath = path.join(this.fixturesDir, file);
+
+      if (!fs.existsSync(filePath)) {
+        res.status(404).send(`Fixture not found: ${file}`);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(fs.readFileSync(filePath, 'utf-8'));
+    });
+
+    // Assets saved next to the captures (css, images) if any
+    this.app.use('/fixtures', express.static(this.fixturesDir));
+  }
+
+  async start(): Promise<string> {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    if (!fs.existsSync(this.fixturesDir)) {
+      throw new Error(`Fixtures directory not found: ${this.fixturesDir}`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = this.app.listen(this.port, '127.0.0.1', () => resolve());
+      this.server.on('error', reject);
+    });
+
+    const { port } = this.server!.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    console.log(`🎞️  Fixture server replaying ${this.fixturesDir} on ${this.baseUrl}`);
+
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+    this.baseUrl = null;
+  }
+
+  /**
+   * List HTML fixtures in name order, optionally restricted to a subset
+   */
+  listFixtures(only?: string[]): ReplayFixture[] {
+    if (!this.baseUrl) {
+      throw new Error('Fixture server not started');
+    }
+
+    const manifest = this.readManifest();
+    const files = only && only.length > 0
+      ? only
+      : fs.readdirSync(this.fixturesDir).filter(file => file.endsWith('.html')).sort();
+
+    return files.map(file => {
+      const entry = manifest[file];
+      const details = typeof entry === 'object' && entry ? entry : {};
+      const label = typeof entry === 'string' ? entry : details.label;
+
+      return {
+        file,
+        label: label || path.basename(file, '.html'),
+        url: `${this.baseUrl}/fixtures/${encodeURIComponent(file)}`,
+        ...(details.currency ? { currency: details.currency.toUpperCase() } : {}),
+        ...(details.accountNumber ? { accountNumber: details.accountNumber } : {})
+      };
+    });
+  }
+
+  getBaseUrl(): string | null {
+    return this.baseUrl;
+  }
+
+  private readManifest(): Record<string, FixtureManifestEntry> {
+    const manifestPath = path.join(this.fixturesDir, 'manifest.json');
+
+    if (!fs.existsSync(manifestPath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch (error) {
+      console.log(`⚠️  Invalid fixture manifest ${manifestPath}:`, error);
+      return {};
+    }
+  }
+}
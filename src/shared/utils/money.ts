@@ -0,0 +1,173 @@
+/**
+ * Money Utilities
+ *
+ * Exact money arithmetic on integer cents. Amounts are never added as
+ * floats: values are converted to `Money` once, at the edge, and sums,
+ * differences and comparisons are done on integers of the same currency.
+ */
+
+import type { Money, BankAccount, BankTransaction } from '../types/base';
+
+export class CurrencyMismatchError extends Error {
+  constructor(expected: string, actual: string) {
+    super(`Cannot combine ${expected} and ${actual} amounts`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+/**
+ * Build Money from a decimal number or string ("1234.56", "-0.5", 12.3)
+ */
+export function toMoney(value: number | string, currency: string): Money {
+  return moneyFromCents(decimalToCents(typeof value === 'number' ? value.toFixed(2) : value), currency);
+}
+
+/**
+ * Exact cents of a plain decimal string ("-1234.565" → -123457)
+ */
+export function decimalToCents(decimal: string): number {
+  const match = decimal.trim().match(/^([+-])?(\d+)(?:\.(\d+))?$/);
+
+  if (!match) {
+    throw new Error(`Invalid decimal amount: ${decimal}`);
+  }
+
+  const [, sign, units, fraction = ''] = match;
+  // Round half away from zero on the third decimal
+  const roundUp = fraction.length > 2 && Number(fraction[2]) >= 5;
+  const cents = Number(units) * 100 + Number(fraction.padEnd(2, '0').substring(0, 2)) + (roundUp ? 1 : 0);
+
+  return sign === '-' ? -cents : cents;
+}
+
+/**
+ * Build Money from an integer amount of cents
+ */
+export function moneyFromCents(cents: number, currency: string): Money {
+  if (!Number.isSafeInteger(cents)) {
+    throw new Error(`Money cents must be a safe integer, got ${cents}`);
+  }
+
+  return { cents: cents === 0 ? 0 : cents, currency: currency.toUpperCase() };
+}
+
+export function zeroMoney(currency: string): Money {
+  return moneyFromCents(0, currency);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return moneyFromCents(a.cents + b.cents, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return moneyFromCents(a.cents - b.cents, a.currency);
+}
+
+export function negateMoney(money: Money): Money {
+  return moneyFromCents(-money.cents, money.currency);
+}
+
+/**
+ * Sum amounts of one currency (an empty list sums to zero)
+ */
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce((total, value) => addMoney(total, value), zeroMoney(currency));
+}
+
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.cents === b.cents;
+}
+
+/**
+ * Decimal string with two decimals ("-1234.56"), safe for storage and exports
+ */
+export function moneyToDecimal(money: Money): string {
+  const sign = money.cents < 0 ? '-' : '';
+  const cents = Math.abs(money.cents);
+  return `${sign}${Math.floor(cents / 100)}.${String(cents % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Plain number, for display and legacy `number` fields only
+ */
+export function moneyToNumber(money: Money): number {
+  return money.cents / 100;
+}
+
+/**
+ * Human readable amount ("Bs.S 1.234,56", "USD 10,00")
+ */
+export function formatMoney(money: Money, locale: string = 'es-VE'): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(moneyToNumber(money));
+  } catch {
+    return `${moneyToDecimal(money)} ${money.currency}`;
+  }
+}
+
+/**
+ * Set the currency and exact amounts of a transaction. `amountMoney` is signed:
+ * credits are positive, debits negative.
+ */
+export function withTransactionMoney<T extends BankTransaction>(transaction: T, currency: string = transaction.currency): T {
+  const amount = toMoney(Math.abs(transaction.amount), currency);
+
+  return {
+    ...transaction,
+    currency: amount.currency,
+    amountMoney: transaction.type === 'debit' ? negateMoney(amount) : amount,
+    balanceMoney: toMoney(transaction.balance, currency)
+  };
+}
+
+/**
+ * Set the exact amounts of a transaction from parsed cents, without a float
+ * round-trip; `amount`/`balance` are derived from them. The sign of
+ * `amountCents` is ignored: `amountMoney` is signed by `type`.
+ */
+export function withTransactionCents<T extends BankTransaction>(transaction: T, amountCents: number, balanceCents: number = 0): T {
+  const amount = moneyFromCents(Math.abs(amountCents), transaction.currency);
+  const balance = moneyFromCents(balanceCents, transaction.currency);
+
+  return {
+    ...transaction,
+    currency: amount.currency,
+    amount: moneyToNumber(amount),
+    amountMoney: transaction.type === 'debit' ? negateMoney(amount) : amount,
+    balance: moneyToNumber(balance),
+    balanceMoney: balance
+  };
+}
+
+/**
+ * Signed exact amount of a transaction (debits negative), from `amountMoney` when set
+ */
+export function transactionAmount(transaction: BankTransaction): Money {
+  if (transaction.amountMoney) {
+    return transaction.amountMoney;
+  }
+
+  const amount = toMoney(Math.abs(transaction.amount), transaction.currency);
+  return transaction.type === 'debit' ? negateMoney(amount) : amount;
+}
+
+/**
+ * Set the exact balances of an account from its `balance`/`availableBalance` and currency
+ */
+export function withAccountMoney<T extends BankAccount>(account: T): T {
+  return {
+    ...account,
+    balanceMoney: toMoney(account.balance, account.currency),
+    availableBalanceMoney: account.availableBalance === undefined
+      ? undefined
+      : toMoney(account.availableBalance, account.currency)
+  };
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new CurrencyMismatchError(a.currency, b.currency);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Session Encryption
+ *
+ * Saved browser sessions (cookies, localStorage, sessionStorage) are live
+ * bank credentials, so they are only written encrypted: AES-256-GCM with a
+ * key derived (scrypt, random salt per file) from a secret taken from the
+ * `BANKER_SESSION_KEY` environment variable or, when unset, the OS keyring
+ * (macOS Keychain / Linux Secret Service). The GCM tag authenticates the
+ * data and the session id it was written for, so edited, truncated or
+ * swapped files fail to decrypt instead of restoring a foreign session.
+ *
+ *   export BANKER_SESSION_KEY="$(openssl rand -base64 32)"
+ *   # or: secret-tool store --label=banker service banker-venezuela account session-key
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { execFileSync } from 'child_process';
+import { promisify } from 'util';
+
+export const SESSION_KEY_ENV = 'BANKER_SESSION_KEY';
+export const SESSION_KEYRING_SERVICE = 'banker-venezuela';
+export const SESSION_KEYRING_ACCOUNT = 'session-key';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const MIN_SECRET_LENGTH = 16;
+
+const scryptAsync = promisify(scrypt) as (secret: string, salt: Buffer, length: number) => Promise<Buffer>;
+
+// What is written to disk instead of the session JSON
+export interface EncryptedSessionEnvelope {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;   // Base64
+  iv: string;     // Base64
+  tag: string;    // Base64 GCM authentication tag
+  data: string;   // Base64 ciphertext
+}
+
+export type SessionDecryptionReason = 'not-encrypted' | 'unsupported' | 'tampered';
+
+export class SessionKeyUnavailableError extends Error {
+  constructor() {
+    super(
+      `No session encryption key: set ${SESSION_KEY_ENV} (at least ${MIN_SECRET_LENGTH} characters) ` +
+      `or store one in the OS keyring (service "${SESSION_KEYRING_SERVICE}", account "${SESSION_KEYRING_ACCOUNT}")`
+    );
+    this.name = 'SessionKeyUnavailableError';
+  }
+}
+
+export class SessionDecryptionError extends Error {
+  constructor(
+    public readonly reason: SessionDecryptionReason,
+    detail: string
+  ) {
+    super(`Cannot decrypt session (${reason}): ${detail}`);
+    this.name = 'SessionDecryptionError';
+  }
+}
+
+/**
+ * Secret to derive session keys from: the environment variable, else the OS keyring, else null
+ */
+export function resolveSessionSecret(env: NodeJS.ProcessEnv = process.env): string | null {
+  const secret = env[SESSION_KEY_ENV]?.trim() || readKeyringSecret();
+
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    return null;
+  }
+
+  return secret;
+}
+
+/**
+ * Encrypt a serialized session. `sessionId` is authenticated with it, so the file only decrypts under that id.
+ */
+export async function encryptSession(plaintext: string, secret: string, sessionId: string): Promise<EncryptedSessionEnvelope> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await scryptAsync(secret, salt, KEY_LENGTH);
+
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(sessionId, 'utf-8'));
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    version: 1,
+    algorithm: ALGORITHM,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+/**
+ * Decrypt a session envelope, throwing SessionDecryptionError if it is not one, was modified or the key is wrong
+ */
+export async function decryptSession(envelope: unknown, secret: string, sessionId: string): Promise<string> {
+  if (!isEncryptedSession(envelope)) {
+    throw new SessionDecryptionError('not-encrypted', 'the file is not an encrypted session envelope');
+  }
+
+  if (envelope.version !== 1 || envelope.algorithm !== ALGORITHM || envelope.kdf !== 'scrypt') {
+    throw new SessionDecryptionError('unsupported', `version ${envelope.version}, ${envelope.algorithm}/${envelope.kdf}`);
+  }
+
+  try {
+    const key = await scryptAsync(secret, Buffer.from(envelope.salt, 'base64'), KEY_LENGTH);
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAAD(Buffer.from(sessionId, 'utf-8'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch (error) {
+    throw new SessionDecryptionError('tampered', `authentication failed, wrong key or modified file (${(error as Error).message})`);
+  }
+}
+
+export function isEncryptedSession(value: unknown): value is EncryptedSessionEnvelope {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const envelope = value as Record<string, unknown>;
+  return typeof envelope.version === 'number'
+    && ['salt', 'iv', 'tag', 'data'].every(field => typeof envelope[field] === 'string');
+}
+
+// macOS Keychain or Linux Secret Service; null when there is no keyring or no entry
+function readKeyringSecret(): string | null {
+  const commands: Record<string, [string, string[]]> = {
+    darwin: ['security', ['find-generic-password', '-s', SESSION_KEYRING_SERVICE, '-a', SESSION_KEYRING_ACCOUNT, '-w']],
+    linux: ['secret-tool', ['lookup', 'service', SESSION_KEYRING_SERVICE, 'account', SESSION_KEYRING_ACCOUNT]]
+  };
+
+  const command = commands[process.platform];
+  if (!command) {
+    return null;
+  }
+
+  try {
+    const output = execFileSync(command[0], command[1], { encoding: 'utf-8', timeout: 5000, stdio: ['ignore', 'pipe', 'ignore'] });
+    return output.trim() || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Session Keep-Alive
+ *
+ * Keeps an authenticated bank session from hitting the bank's idle timeout
+ * during long jobs: when the page has been quiet for most of the idle window,
+ * it requests the bank's `keepAliveUrl` with the session cookies (through the
+ * browser context, so the page being scraped is not touched). A redirect to
+ * the login page, an error status or the bank's maximum session lifetime end
+ * the session, and callers hear about it through events instead of finding
+ * a login page halfway through scraping:
+ *
+ *   const keepAlive = new SessionKeepAlive(page, BNC_CONFIG);
+ *   keepAlive.on('expired', event => console.warn(`Session ended: ${event.reason}`));
+ *   keepAlive.start();
+ *   ...
+ *   keepAlive.assertActive();  // between accounts
+ */
+
+import { EventEmitter } from 'events';
+import type { Page } from 'playwright';
+import type { BankConfig, BankSessionPolicy } from '../types/base';
+
+export type SessionExpiryReason = 'idle-timeout' | 'max-lifetime' | 'logged-out';
+
+export type SessionState = 'active' | 'expired' | 'stopped';
+
+export interface SessionStatus {
+  state: SessionState;
+  startedAt: number;       // Epoch ms when the session was authenticated
+  lastActivity: number;    // Last navigation or keep-alive ping
+  idleExpiresAt: number;   // When the bank logs out without further activity
+  expiresAt: number;       // Hard limit (maxLifetimeMinutes), never extended
+  reason?: SessionExpiryReason;
+}
+
+export interface SessionPingEvent {
+  url: string;
+  status: number;
+  at: number;
+}
+
+export interface SessionExpiringEvent {
+  expiresAt: number;
+  remainingMs: number;
+}
+
+export interface SessionExpiredEvent {
+  reason: SessionExpiryReason;
+  at: number;
+  detail?: string;
+}
+
+export interface SessionKeepAliveOptions {
+  startedAt?: number;          // Default: now (e.g. the restored session's login time)
+  marginMinutes?: number;      // Ping / warn this long before a timeout (default: 1)
+  checkIntervalMs?: number;    // How often the timers are checked (default: 15s)
+}
+
+export class SessionExpiredError extends Error {
+  constructor(
+    public readonly bankName: string,
+    public readonly reason: SessionExpiryReason
+  ) {
+    super(`${bankName} session expired (${reason})`);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export declare interface SessionKeepAlive {
+  on(event: 'ping', listener: (event: SessionPingEvent) => void): this;
+  on(event: 'expiring', listener: (event: SessionExpiringEvent) => void): this;
+  on(event: 'expired', listener: (event: SessionExpiredEvent) => void): this;
+  once(event: 'expired', listener: (event: SessionExpiredEvent) => void): this;
+}
+
+export class SessionKeepAlive extends EventEmitter {
+  private policy: BankSessionPolicy;
+  private startedAt: number;
+  private lastActivity: number;
+  private state: SessionState = 'stopped';
+  private reason?: SessionExpiryReason;
+  private timer: NodeJS.Timeout | null = null;
+  private pinging = false;
+  private warned = false;
+  private marginMs: number;
+  private checkIntervalMs: number;
+  private onNavigation = () => this.touch();
+
+  constructor(
+    private readonly page: Page,
+    private readonly bank: BankConfig,
+    options: SessionKeepAliveOptions = {}
+  ) {
+    super();
+
+    if (!bank.session) {
+      throw new Error(`${bank.name} has no session policy (BankConfig.session)`);
+    }
+
+    this.policy = bank.session;
+    this.startedAt = options.startedAt ?? Date.now();
+    this.lastActivity = Date.now();
+    this.marginMs = (options.marginMinutes ?? 1) * 60 * 1000;
+    this.checkIntervalMs = options.checkIntervalMs ?? 15000;
+  }
+
+  /**
+   * Start watching the session; navigations of the page count as activity
+   */
+  start(): this {
+    if (this.state === 'active') {
+      return this;
+    }
+
+    this.state = 'active';
+    this.page.on('framenavigated', this.onNavigation);
+    this.timer = setInterval(() => { void this.check(); }, this.checkIntervalMs);
+    this.timer.unref(); // Never keep the process alive on its own
+
+    return this;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.page.off('framenavigated', this.onNavigation);
+
+    if (this.state === 'active') {
+      this.state = 'stopped';
+    }
+  }
+
+  /**
+   * Record activity on the session (the bank resets its idle timer on every request)
+   */
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  getStatus(): SessionStatus {
+    return {
+      state: this.state,
+      startedAt: this.startedAt,
+      lastActivity: this.lastActivity,
+      idleExpiresAt: this.lastActivity + minutes(this.policy.idleTimeoutMinutes),
+      expiresAt: this.startedAt + minutes(this.policy.maxLifetimeMinutes),
+      reason: this.reason
+    };
+  }
+
+  isActive(): boolean {
+    return this.state !== 'expired';
+  }
+
+  /**
+   * Throw SessionExpiredError if the session is known to be dead
+   */
+  assertActive(): void {
+    if (this.state === 'expired') {
+      throw new SessionExpiredError(this.bank.name, this.reason!);
+    }
+  }
+
+  /**
+   * Request the keep-alive page now, expiring the session if the bank no longer accepts it
+   */
+  async ping(): Promise<boolean> {
+    if (this.state === 'expired' || this.pinging) {
+      return this.state !== 'expired';
+    }
+
+    this.pinging = true;
+    try {
+      const response = await this.page.context().request.get(this.policy.keepAliveUrl, {
+        failOnStatusCode: false,
+        timeout: 15000
+      });
+
+      const url = response.url();
+      const status = response.status();
+      this.emit('ping', { url, status, at: Date.now() } as SessionPingEvent);
+
+      if (status >= 400 || this.isLoginPage(url)) {
+        this.expire('logged-out', `keep-alive got ${status} from ${url}`);
+        return false;
+      }
+
+      this.touch();
+      return true;
+
+    } catch (error) {
+      // Network hiccup: the idle check expires the session if pings keep failing
+      return false;
+    } finally {
+      this.pinging = false;
+    }
+  }
+
+  private async check(): Promise<void> {
+    if (this.state !== 'active') {
+      return;
+    }
+
+    const now = Date.now();
+    const status = this.getStatus();
+
+    if (now >= status.expiresAt) {
+      this.expire('max-lifetime');
+      return;
+    }
+
+    if (now >= status.idleExpiresAt) {
+      this.expire('idle-timeout');
+      return;
+    }
+
+    if (!this.warned && status.expiresAt - now <= this.marginMs) {
+      this.warned = true;
+      this.emit('expiring', { expiresAt: status.expiresAt, remainingMs: status.expiresAt - now } as SessionExpiringEvent);
+    }
+
+    if (status.idleExpiresAt - now <= this.marginMs + this.checkIntervalMs) {
+      await this.ping();
+    }
+  }
+
+  private expire(reason: SessionExpiryReason, detail?: string): void {
+    if (this.state === 'expired') {
+      return;
+    }
+
+    this.stop();
+    this.state = 'expired';
+    this.reason = reason;
+    this.emit('expired', { reason, at: Date.now(), detail } as SessionExpiredEvent);
+  }
+
+  private isLoginPage(url: string): boolean {
+    try {
+      const login = new URL(this.bank.loginUrl);
+      const current = new URL(url);
+      return current.host === login.host && current.pathname.toLowerCase() === login.pathname.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+}
+
+function minutes(value: number): number {
+  return value * 60 * 1000;
+}
@@ -1,7 +1,16 @@
 import { Page, BrowserContext } from 'playwright';
-import { promises as fs } from 'fs';
-import { join } from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { StrategicLogger } from './strategic-logger';
+import { SessionStore, FileSessionStore } from './session-store';
+import type { BankConfig } from '../types/base';
+import {
+  encryptSession,
+  decryptSession,
+  resolveSessionSecret,
+  isEncryptedSession,
+  SessionKeyUnavailableError,
+  SessionDecryptionError
+} from './session-crypto';
 
 export interface SessionData {
   cookies: any[];
@@ -10,16 +19,30 @@ export interface SessionData {
   url: string;
   timestamp: number;
   userAgent: string;
-  username: string;
+  username: string;       // Masked, first 3 characters only
+  usernameHmac?: string;  // HMAC of the full username, checked before the session is used
+  bank?: string;          // BankConfig.code of the session
+  expiresAt?: number;     // Epoch ms when the bank's idle timeout ends the session
+}
+
+// Restored sessions without bank metadata are trusted for this long
+const LEGACY_SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Namespace of sessions saved without a bank
+const DEFAULT_SESSION_NAMESPACE = 'default';
+
+export interface SessionManagerOptions {
+  store?: SessionStore;  // Default: FileSessionStore in process.cwd()/.sessions
 }
 
 export class SessionManager {
   private static instance: SessionManager;
   private logger = StrategicLogger.getInstance().createComponentLogger('SessionManager');
-  private sessionsDir = join(process.cwd(), '.sessions');
+  private store: SessionStore;
+  private secret: string | null | undefined;
 
-  private constructor() {
-    this.ensureSessionsDir();
+  private constructor(options: SessionManagerOptions = {}) {
+    this.store = options.store || new FileSessionStore();
   }
 
   static getInstance(): SessionManager {
@@ -29,20 +52,196 @@ export class SessionManager {
     return SessionManager.instance;
   }
 
-  private async ensureSessionsDir(): Promise<void> {
+  /**
+   * Point the shared instance (used by the bank logins) at another store, e.g. one shared by several workers
+   */
+  static configure(options: SessionManagerOptions): SessionManager {
+    const manager = SessionManager.getInstance();
+    if (options.store) {
+      manager.store = options.store;
+      manager.logger.info('Session store configured', { store: options.store.name });
+    }
+    return manager;
+  }
+
+  /**
+   * Standalone manager with its own store, independent of the shared instance
+   */
+  static create(options: SessionManagerOptions = {}): SessionManager {
+    return new SessionManager(options);
+  }
+
+  getStore(): SessionStore {
+    return this.store;
+  }
+
+  /**
+   * Whether sessions can be saved and restored (an encryption key is configured)
+   */
+  canPersistSessions(): boolean {
     try {
-      await fs.access(this.sessionsDir);
+      this.getSecret();
+      return true;
     } catch {
-      await fs.mkdir(this.sessionsDir, { recursive: true });
-      this.logger.info('Sessions directory created', { path: this.sessionsDir });
+      return false;
+    }
+  }
+
+  /**
+   * Session id namespaced by bank code: "<bank>_<HMAC-SHA256 of bank and username>".
+   * Keyed with the session secret, so ids cannot be linked to usernames without it.
+   */
+  private getSessionId(username: string, bank?: BankConfig): string {
+    const namespace = this.getNamespace(bank);
+    const digest = createHmac('sha256', this.getSecret())
+      .update(`session-id\0${namespace}\0${username}`)
+      .digest('hex');
+
+    return `${namespace}_${digest.substring(0, 32)}`;
+  }
+
+  private getNamespace(bank?: BankConfig): string {
+    return (bank?.code || DEFAULT_SESSION_NAMESPACE).toLowerCase().replace(/[^a-z0-9-]/g, '-');
+  }
+
+  /**
+   * HMAC of the full username, so a session can be tied to its user without storing the username
+   */
+  private getUsernameHmac(username: string): string {
+    return createHmac('sha256', this.getSecret())
+      .update(`session-owner\0${username}`)
+      .digest('hex');
+  }
+
+  private isOwnSession(sessionData: SessionData, username: string): boolean {
+    if (!sessionData.usernameHmac) {
+      return true; // Found under an id keyed by the full username
+    }
+
+    const expected = Buffer.from(this.getUsernameHmac(username), 'hex');
+    const recorded = Buffer.from(sessionData.usernameHmac, 'hex');
+    return recorded.length === expected.length && timingSafeEqual(recorded, expected);
+  }
+
+  /**
+   * Move a session saved under the old 32-bit username hash to its namespaced id,
+   * encrypting it if it was saved in plaintext before sessions were encrypted.
+   * The old id ignored the bank and could collide, so the session is only moved
+   * when it is unambiguously this user's (see ownsLegacySession); otherwise it is
+   * left for its owner. The moved record carries the full-username HMAC.
+   */
+  private async migrateLegacySession(username: string, bank?: BankConfig): Promise<void> {
+    const legacyId = this.hashUsername(username);
+    const sessionData = await this.readLegacySession(legacyId);
+    if (!sessionData) {
+      return;
+    }
+
+    if (!this.ownsLegacySession(sessionData, username, bank)) {
+      this.logger.info('Legacy session may belong to another user or bank, not migrated', { sessionId: legacyId });
+      return;
     }
+
+    const sessionId = this.getSessionId(username, bank);
+    const envelope = await encryptSession(
+      JSON.stringify({ ...sessionData, bank: sessionData.bank || bank?.code, usernameHmac: this.getUsernameHmac(username) }),
+      this.getSecret(),
+      sessionId
+    );
+
+    await this.store.set(sessionId, JSON.stringify(envelope, null, 2));
+    await this.store.delete(legacyId);
+    this.logger.info('Legacy session migrated to namespaced id', { from: legacyId, to: sessionId });
   }
 
-  private getSessionPath(username: string): string {
-    const sessionId = this.hashUsername(username);
-    return join(this.sessionsDir, `session_${sessionId}.json`);
+  /**
+   * Session stored under a legacy id: plaintext JSON from before encryption, or encrypted for that id
+   */
+  private async readLegacySession(legacyId: string): Promise<SessionData | null> {
+    const stored = await this.store.get(legacyId);
+    if (stored === null) {
+      return null;
+    }
+
+    const plaintext = parseJson(stored);
+    if (isPlaintextSession(plaintext)) {
+      return plaintext;
+    }
+
+    return this.readSession(legacyId);
   }
 
+  /**
+   * A legacy session is this user's when its full-username HMAC matches or, for
+   * records without one, when its masked username matches and its bank (the
+   * recorded code, else the host of the page it was saved on) is this bank.
+   * Records that name no bank, or restores without one, are ambiguous and skipped.
+   */
+  private ownsLegacySession(sessionData: SessionData, username: string, bank?: BankConfig): boolean {
+    if (!bank) {
+      return false;
+    }
+
+    if (sessionData.bank && sessionData.bank !== bank.code) {
+      return false;
+    }
+
+    if (sessionData.usernameHmac) {
+      return this.isOwnSession(sessionData, username);
+    }
+
+    if (sessionData.username !== maskUsername(username)) {
+      return false;
+    }
+
+    return !!sessionData.bank || [bank.baseUrl, bank.loginUrl].some(url => sameHost(url, sessionData.url));
+  }
+
+  private getSecret(): string {
+    if (this.secret === undefined) {
+      this.secret = resolveSessionSecret();
+    }
+    if (!this.secret) {
+      throw new SessionKeyUnavailableError();
+    }
+    return this.secret;
+  }
+
+  /**
+   * Read and decrypt a stored session. Plaintext, tampered or undecryptable entries are
+   * deleted, except plaintext ones under legacy ids, which are left for migrateLegacySession.
+   */
+  private async readSession(sessionId: string): Promise<SessionData | null> {
+    const stored = await this.store.get(sessionId);
+    if (stored === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await decryptSession(JSON.parse(stored), this.getSecret(), sessionId));
+    } catch (error) {
+      if (error instanceof SessionDecryptionError && error.reason === 'not-encrypted' && isLegacySessionId(sessionId)) {
+        return null;
+      }
+      if (error instanceof SessionDecryptionError || error instanceof SyntaxError) {
+        this.logger.warn('Discarding unreadable session', { store: this.store.name, sessionId, reason: error.message });
+        await this.store.delete(sessionId);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private isExpired(sessionData: SessionData): boolean {
+    if (sessionData.expiresAt !== undefined) {
+      return Date.now() > sessionData.expiresAt;
+    }
+    return Date.now() - sessionData.timestamp > LEGACY_SESSION_MAX_AGE;
+  }
+
+  /**
+   * Session id before namespacing, only used to find sessions to migrate
+   */
   private hashUsername(username: string): string {
     // Simple hash para crear ID único pero no reversible
     let hash = 0;
@@ -54,7 +253,11 @@ export class SessionManager {
     return Math.abs(hash).toString(36);
   }
 
-  async saveSession(page: Page, username: string): Promise<boolean> {
+  /**
+   * Save the session of an authenticated page. With the bank's config, the session
+   * records when the bank's idle timeout ends it (BankConfig.session).
+   */
+  async saveSession(page: Page, username: string, bank?: BankConfig): Promise<boolean> {
     const operationId = this.logger.startOperation('save_session');
     
     try {
@@ -95,14 +298,19 @@ export class SessionManager {
         url: page.url(),
         timestamp: Date.now(),
         userAgent: await page.evaluate(() => navigator.userAgent),
-        username: username.substring(0, 3) + '***' // Solo primeros 3 caracteres por seguridad
+        username: maskUsername(username), // Solo primeros 3 caracteres por seguridad
+        usernameHmac: this.getUsernameHmac(username),
+        bank: bank?.code,
+        expiresAt: bank?.session ? Date.now() + bank.session.idleTimeoutMinutes * 60 * 1000 : undefined
       };
 
-      const sessionPath = this.getSessionPath(username);
-      await fs.writeFile(sessionPath, JSON.stringify(sessionData, null, 2));
+      const sessionId = this.getSessionId(username, bank);
+      const envelope = await encryptSession(JSON.stringify(sessionData), this.getSecret(), sessionId);
+      await this.store.set(sessionId, JSON.stringify(envelope, null, 2));
 
       this.logger.success('Session saved successfully', { 
-        path: sessionPath,
+        store: this.store.name,
+        sessionId,
         cookiesCount: cookies.length,
         localStorageKeys: Object.keys(storageData.localStorage).length
       });
@@ -117,33 +325,35 @@ export class SessionManager {
     }
   }
 
-  async restoreSession(page: Page, username: string): Promise<boolean> {
+  async restoreSession(page: Page, username: string, bank?: BankConfig): Promise<boolean> {
     const operationId = this.logger.startOperation('restore_session');
     
     try {
-      const sessionPath = this.getSessionPath(username);
+      const sessionId = this.getSessionId(username, bank);
+      await this.migrateLegacySession(username, bank);
       
-      // Verificar si existe el archivo de sesión
-      try {
-        await fs.access(sessionPath);
-      } catch {
+      // Verificar si existe la sesión (las ilegibles se descartan en readSession)
+      const sessionData = await this.readSession(sessionId);
+      if (!sessionData) {
         this.logger.info('No existing session found');
         this.logger.endOperation(operationId);
         return false;
       }
 
-      const sessionDataRaw = await fs.readFile(sessionPath, 'utf-8');
-      const sessionData: SessionData = JSON.parse(sessionDataRaw);
+      if (!this.isOwnSession(sessionData, username)) {
+        this.logger.warn('Stored session belongs to another user, not restored', { sessionId });
+        this.logger.endOperation(operationId);
+        return false;
+      }
 
-      // Verificar si la sesión no es muy antigua (24 horas)
+      // Verificar si la sesión no expiró (timeout del banco, o 24 horas sin metadata)
       const sessionAge = Date.now() - sessionData.timestamp;
-      const maxAge = 24 * 60 * 60 * 1000; // 24 horas
       
-      if (sessionAge > maxAge) {
-        this.logger.warn('Session expired, removing old session file', { 
+      if (this.isExpired(sessionData)) {
+        this.logger.warn('Session expired, removing old session', { 
           ageHours: Math.round(sessionAge / (60 * 60 * 1000)) 
         });
-        await fs.unlink(sessionPath);
+        await this.store.delete(sessionId);
         this.logger.endOperation(operationId);
         return false;
       }
@@ -224,52 +434,59 @@ export class SessionManager {
     }
   }
 
-  async clearSession(username: string): Promise<void> {
+  async clearSession(username: string, bank?: BankConfig): Promise<void> {
     try {
-      const sessionPath = this.getSessionPath(username);
-      await fs.unlink(sessionPath);
+      await this.store.delete(this.getSessionId(username, bank));
       this.logger.info('Session cleared', { username: username.substring(0, 3) + '***' });
     } catch (error) {
-      // Session file doesn't exist, that's fine
-      this.logger.trace('No session to clear');
+      this.logger.warn('Error clearing session', error);
     }
   }
 
   async clearAllSessions(): Promise<void> {
     try {
-      const files = await fs.readdir(this.sessionsDir);
-      const sessionFiles = files.filter(file => file.startsWith('session_') && file.endsWith('.json'));
+      const sessionIds = await this.store.list();
       
-      for (const file of sessionFiles) {
-        await fs.unlink(join(this.sessionsDir, file));
+      for (const sessionId of sessionIds) {
+        await this.store.delete(sessionId);
       }
       
-      this.logger.info('All sessions cleared', { count: sessionFiles.length });
+      this.logger.info('All sessions cleared', { count: sessionIds.length });
     } catch (error) {
       this.logger.warn('Error clearing sessions', error);
     }
   }
 
-  async listSessions(): Promise<Array<{ username: string; timestamp: number; ageHours: number }>> {
+  async listSessions(): Promise<Array<{
+    username: string;
+    timestamp: number;
+    ageHours: number;
+    bank?: string;
+    expiresAt?: number;
+    expired: boolean;
+  }>> {
     try {
-      const files = await fs.readdir(this.sessionsDir);
-      const sessionFiles = files.filter(file => file.startsWith('session_') && file.endsWith('.json'));
+      const sessionIds = await this.store.list();
       
       const sessions = [];
       
-      for (const file of sessionFiles) {
+      for (const sessionId of sessionIds) {
         try {
-          const filePath = join(this.sessionsDir, file);
-          const sessionDataRaw = await fs.readFile(filePath, 'utf-8');
-          const sessionData: SessionData = JSON.parse(sessionDataRaw);
+          const sessionData = await this.readSession(sessionId);
+          if (!sessionData) {
+            continue;
+          }
           
           sessions.push({
             username: sessionData.username,
             timestamp: sessionData.timestamp,
-            ageHours: Math.round((Date.now() - sessionData.timestamp) / (60 * 60 * 1000))
+            ageHours: Math.round((Date.now() - sessionData.timestamp) / (60 * 60 * 1000)),
+            bank: sessionData.bank,
+            expiresAt: sessionData.expiresAt,
+            expired: this.isExpired(sessionData)
           });
         } catch (e) {
-          // Skip invalid session files
+          // Skip invalid sessions
         }
       }
       
@@ -279,4 +496,41 @@ export class SessionManager {
       return [];
     }
   }
-} 
\ No newline at end of file
+} 
+
+function maskUsername(username: string): string {
+  return username.substring(0, 3) + '***';
+}
+
+// Ids from before namespacing ("<bank>_<digest>") were a bare base-36 hash
+function isLegacySessionId(sessionId: string): boolean {
+  return !sessionId.includes('_');
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// Session JSON saved before sessions were encrypted
+function isPlaintextSession(value: unknown): value is SessionData {
+  const session = value as SessionData;
+  return !!session
+    && typeof session === 'object'
+    && !isEncryptedSession(session)
+    && Array.isArray(session.cookies)
+    && typeof session.url === 'string'
+    && typeof session.username === 'string'
+    && typeof session.timestamp === 'number';
+}
+
+function sameHost(a: string, b: string): boolean {
+  try {
+    return new URL(a).hostname.toLowerCase() === new URL(b).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+}
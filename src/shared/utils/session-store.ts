@@ -0,0 +1,168 @@
+/**
+ * Session Stores
+ *
+ * Where `SessionManager` keeps saved sessions. A store only moves opaque
+ * strings (already encrypted by SessionManager) by session id, so several
+ * workers pointed at the same shared store can restore each other's sessions.
+ *
+ * - FileSessionStore: one file per session in a local directory (default `.sessions/`)
+ * - MemorySessionStore: process memory, for tests
+ * - KeyValueSessionStore: any Redis-compatible client (ioredis, node-redis)
+ *   or the in-process MemoryKeyValueClient stand-in
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+export interface SessionStore {
+  readonly name: string;
+  get(sessionId: string): Promise<string | null>;
+  set(sessionId: string, value: string): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  list(): Promise<string[]>;  // Ids of every stored session
+}
+
+// The subset of the Redis API the key-value store uses (ioredis and node-redis both provide it)
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  keys(pattern: string): Promise<string[]>;
+}
+
+const SESSION_FILE_PREFIX = 'session_';
+const SESSION_FILE_SUFFIX = '.json';
+
+export class FileSessionStore implements SessionStore {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string = join(process.cwd(), '.sessions')) {}
+
+  async get(sessionId: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getPath(sessionId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write through a temporary file and rename, so a crash never leaves a half-written session
+   */
+  async set(sessionId: string, value: string): Promise<void> {
+    await this.ensureDirectory();
+
+    const path = this.getPath(sessionId);
+    const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+    try {
+      await fs.writeFile(tempPath, value, { mode: 0o600 });
+      await fs.rename(tempPath, path);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.unlink(this.getPath(sessionId)).catch(() => undefined);
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.startsWith(SESSION_FILE_PREFIX) && file.endsWith(SESSION_FILE_SUFFIX))
+        .map(file => file.slice(SESSION_FILE_PREFIX.length, -SESSION_FILE_SUFFIX.length));
+    } catch {
+      return [];
+    }
+  }
+
+  private getPath(sessionId: string): string {
+    return join(this.directory, `${SESSION_FILE_PREFIX}${sessionId}${SESSION_FILE_SUFFIX}`);
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    // Only the owner may list or read saved sessions
+    await fs.chmod(this.directory, 0o700).catch(() => undefined);
+  }
+}
+
+export class MemorySessionStore implements SessionStore {
+  readonly name = 'memory';
+  private sessions = new Map<string, string>();
+
+  async get(sessionId: string): Promise<string | null> {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  async set(sessionId: string, value: string): Promise<void> {
+    this.sessions.set(sessionId, value);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+}
+
+export class KeyValueSessionStore implements SessionStore {
+  readonly name = 'key-value';
+
+  constructor(
+    private readonly client: KeyValueClient,
+    private readonly prefix: string = 'banker:session:'
+  ) {}
+
+  async get(sessionId: string): Promise<string | null> {
+    return this.client.get(this.prefix + sessionId);
+  }
+
+  async set(sessionId: string, value: string): Promise<void> {
+    await this.client.set(this.prefix + sessionId, value);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.del(this.prefix + sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    const keys = await this.client.keys(`${this.prefix}*`);
+    return keys.map(key => key.substring(this.prefix.length));
+  }
+}
+
+/**
+ * In-process stand-in for a Redis server, for local runs of code written against KeyValueSessionStore
+ */
+export class MemoryKeyValueClient implements KeyValueClient {
+  private values = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<'OK'> {
+    this.values.set(key, value);
+    return 'OK';
+  }
+
+  async del(key: string): Promise<number> {
+    return this.values.delete(key) ? 1 : 0;
+  }
+
+  // Supports the `*` wildcard only
+  async keys(pattern: string): Promise<string[]> {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return Array.from(this.values.keys()).filter(key => regex.test(key));
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Transaction Identity
+ *
+ * Deterministic transaction ids, so the same movement scraped twice (e.g. in
+ * overlapping periods) gets the same id and can be merged instead of counted
+ * twice. The id is a hash of bank, account, date, signed amount, currency,
+ * reference and normalized description, plus the occurrence number among
+ * identical rows of the same list, so two genuine identical movements on the
+ * same day stay distinct.
+ */
+
+import { createHash } from 'crypto';
+import { transactionAmount } from './money';
+import type { BankTransaction } from '../types/base';
+
+// Bank specific fields that take part in the identity when present
+export type IdentifiableTransaction = BankTransaction & {
+  bankName?: string;
+  accountNumber?: string;
+  accountName?: string;
+};
+
+export interface MergeResult<T> {
+  transactions: T[];   // Existing transactions followed by the new ones
+  added: number;       // Incoming transactions that were new
+  duplicates: number;  // Incoming transactions already present
+}
+
+/**
+ * Identity key of a transaction, without the occurrence number
+ */
+export function transactionKey(transaction: IdentifiableTransaction): string {
+  return [
+    normalize(transaction.bankName),
+    normalize(transaction.accountNumber || transaction.accountName),
+    transaction.date,
+    transactionAmount(transaction).cents,
+    normalize(transaction.currency),
+    normalize(transaction.reference || (transaction as { referenceNumber?: string }).referenceNumber),
+    normalize(transaction.description)
+  ].join('|');
+}
+
+/**
+ * Stable id for a transaction key and its occurrence number ("bnc-9f86d081884c7d65")
+ */
+export function transactionFingerprint(transaction: IdentifiableTransaction, occurrence: number = 0): string {
+  const hash = createHash('sha256')
+    .update(`${transactionKey(transaction)}|${occurrence}`)
+    .digest('hex')
+    .substring(0, 16);
+
+  return `${normalize(transaction.bankName) || 'tx'}-${hash}`;
+}
+
+/**
+ * Set a deterministic `id` on every transaction of one scrape, in list order
+ */
+export function assignTransactionIds<T extends IdentifiableTransaction>(transactions: T[]): T[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map(transaction => {
+    const key = transactionKey(transaction);
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+
+    return { ...transaction, id: transactionFingerprint(transaction, occurrence) };
+  });
+}
+
+/**
+ * Drop transactions whose id was already seen, keeping the first one
+ */
+export function dedupeTransactions<T extends IdentifiableTransaction>(transactions: T[]): T[] {
+  const seen = new Set<string>();
+
+  return withIds(transactions).filter(transaction => {
+    if (seen.has(transaction.id!)) {
+      return false;
+    }
+    seen.add(transaction.id!);
+    return true;
+  });
+}
+
+/**
+ * Merge a new scrape into previously stored transactions without double counting
+ */
+export function mergeTransactions<T extends IdentifiableTransaction>(existing: T[], incoming: T[]): MergeResult<T> {
+  const merged = dedupeTransactions(existing);
+  const known = new Set(merged.map(transaction => transaction.id!));
+  let added = 0;
+  let duplicates = 0;
+
+  for (const transaction of withIds(incoming)) {
+    if (known.has(transaction.id!)) {
+      duplicates++;
+      continue;
+    }
+
+    known.add(transaction.id!);
+    merged.push(transaction);
+    added++;
+  }
+
+  return { transactions: merged, added, duplicates };
+}
+
+// Lists scraped before ids were deterministic get them assigned on the fly
+function withIds<T extends IdentifiableTransaction>(transactions: T[]): T[] {
+  return transactions.every(transaction => transaction.id) ? transactions : assignTransactionIds(transactions);
+}
+
+function normalize(value: string | undefined): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
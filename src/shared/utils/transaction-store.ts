@@ -0,0 +1,195 @@
+/**
+ * Transaction Store
+ *
+ * Local append-only store of scraped transactions, one JSONL file per bank
+ * and account, plus a cursor per account with the last synced date. Each sync
+ * compares a new scrape with what is stored (by the deterministic transaction
+ * id) and appends and returns only new or changed transactions, so downstream
+ * jobs can process deltas. When a transaction changes, the newest line wins.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { assignTransactionIds } from './transaction-identity';
+import type { IdentifiableTransaction } from './transaction-identity';
+
+export interface SyncCursor {
+  bank: string;
+  account: string;
+  lastSyncedDate: string | null;  // Newest transaction date stored (YYYY-MM-DD)
+  lastSyncedAt: string;           // ISO time of the last sync
+  transactionCount: number;
+}
+
+export interface SyncResult<T> {
+  bank: string;
+  account: string;
+  added: T[];         // Transactions not stored before
+  changed: T[];       // Stored transactions whose fields changed (e.g. balance)
+  unchanged: number;
+  cursor: SyncCursor;
+}
+
+// Account key used when a transaction has no account number or name
+const DEFAULT_ACCOUNT = 'default';
+
+export class TransactionStore {
+  private directory: string;
+
+  constructor(directory: string = join(process.cwd(), '.transactions')) {
+    this.directory = directory;
+  }
+
+  /**
+   * Store a scrape of one bank, grouped by account, returning the deltas per account
+   */
+  sync<T extends IdentifiableTransaction>(bank: string, transactions: T[]): SyncResult<T>[] {
+    const byAccount = new Map<string, T[]>();
+
+    for (const transaction of transactions) {
+      const account = accountKey(transaction);
+      byAccount.set(account, [...(byAccount.get(account) || []), transaction]);
+    }
+
+    return [...byAccount.entries()].map(([account, accountTransactions]) =>
+      this.syncAccount(bank, account, accountTransactions)
+    );
+  }
+
+  /**
+   * Stored transactions of one account (latest version of each), oldest first
+   */
+  getTransactions<T extends IdentifiableTransaction>(bank: string, account: string = DEFAULT_ACCOUNT): T[] {
+    const file = this.getTransactionsPath(bank, account);
+    return existsSync(file) ? TransactionStore.readTransactionsFile<T>(file) : [];
+  }
+
+  /**
+   * Read one account's JSONL file (latest version of each transaction), oldest first
+   */
+  static readTransactionsFile<T extends IdentifiableTransaction>(file: string): T[] {
+    const latest = new Map<string, T>();
+    for (const line of readFileSync(file, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      const transaction = JSON.parse(line) as T;
+      latest.set(transaction.id!, transaction);
+    }
+
+    return [...latest.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Cursor of one account, null if it was never synced
+   */
+  getCursor(bank: string, account: string = DEFAULT_ACCOUNT): SyncCursor | null {
+    return this.readCursors()[cursorKey(bank, account)] || null;
+  }
+
+  /**
+   * All cursors of a bank
+   */
+  getCursors(bank: string): SyncCursor[] {
+    return Object.values(this.readCursors()).filter(cursor => cursor.bank === bank);
+  }
+
+  /**
+   * Date to scrape from so every account of the bank is caught up: the oldest
+   * last synced date. That day is scraped again because it may have been
+   * incomplete; the overlap is deduplicated by id. Null if nothing was synced.
+   */
+  getSyncStart(bank: string): string | null {
+    const dates = this.getCursors(bank)
+      .map(cursor => cursor.lastSyncedDate)
+      .filter((date): date is string => !!date)
+      .sort();
+
+    return dates[0] || null;
+  }
+
+  private syncAccount<T extends IdentifiableTransaction>(bank: string, account: string, transactions: T[]): SyncResult<T> {
+    const stored = new Map(this.getTransactions<T>(bank, account).map(transaction => [transaction.id!, transaction]));
+    const incoming = transactions.every(transaction => transaction.id) ? transactions : assignTransactionIds(transactions);
+    const added: T[] = [];
+    const changed: T[] = [];
+
+    for (const transaction of incoming) {
+      const previous = stored.get(transaction.id!);
+
+      if (!previous) {
+        added.push(transaction);
+      } else if (canonicalJson(previous) !== canonicalJson(transaction)) {
+        changed.push(transaction);
+      } else {
+        continue;
+      }
+      stored.set(transaction.id!, transaction);
+    }
+
+    const delta = [...added, ...changed];
+    if (delta.length > 0) {
+      mkdirSync(join(this.directory, safeName(bank)), { recursive: true });
+      appendFileSync(
+        this.getTransactionsPath(bank, account),
+        delta.map(transaction => JSON.stringify(transaction)).join('\n') + '\n'
+      );
+    }
+
+    const dates = [...stored.values()].map(transaction => transaction.date).sort();
+    const cursor: SyncCursor = {
+      bank,
+      account,
+      lastSyncedDate: dates[dates.length - 1] || null,
+      lastSyncedAt: new Date().toISOString(),
+      transactionCount: stored.size
+    };
+    this.writeCursor(cursor);
+
+    return {
+      bank,
+      account,
+      added,
+      changed,
+      unchanged: incoming.length - delta.length,
+      cursor
+    };
+  }
+
+  private getTransactionsPath(bank: string, account: string): string {
+    return join(this.directory, safeName(bank), `${safeName(account)}.jsonl`);
+  }
+
+  private readCursors(): Record<string, SyncCursor> {
+    const file = join(this.directory, 'cursors.json');
+    return existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : {};
+  }
+
+  private writeCursor(cursor: SyncCursor): void {
+    const cursors = this.readCursors();
+    cursors[cursorKey(cursor.bank, cursor.account)] = cursor;
+
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(join(this.directory, 'cursors.json'), JSON.stringify(cursors, null, 2));
+  }
+}
+
+function accountKey(transaction: IdentifiableTransaction): string {
+  return transaction.accountNumber || transaction.accountName || DEFAULT_ACCOUNT;
+}
+
+function cursorKey(bank: string, account: string): string {
+  return `${bank}:${account}`;
+}
+
+// Masked account numbers ("0134-****-**-****4521") are not valid file names everywhere
+function safeName(value: string): string {
+  return value.replace(/[^\w.-]+/g, '_');
+}
+
+// JSON with sorted keys, so field order does not count as a change
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}